@@ -34,6 +34,7 @@ export default [
         Map: 'readonly',
         Set: 'readonly',
         Date: 'readonly',
+        performance: 'readonly',
         URL: 'readonly',
         URLSearchParams: 'readonly',
         fetch: 'readonly',
@@ -93,6 +94,7 @@ export default [
         Map: 'readonly',
         Set: 'readonly',
         Date: 'readonly',
+        performance: 'readonly',
         URL: 'readonly',
         URLSearchParams: 'readonly',
         fetch: 'readonly',
@@ -6,6 +6,8 @@
  * Useful for debugging startup issues and verifying correct linking.
  */
 
+import { isStorageDegraded } from './storage/storage.rn.js';
+
 /**
  * Result of a native module availability check.
  */
@@ -16,6 +18,8 @@ export interface NativeModuleStatus {
   available: boolean;
   /** Error message if the module is not available. */
   error?: string;
+  /** Whether the module is missing and a volatile fallback is in use instead. */
+  degraded?: boolean;
 }
 
 /**
@@ -28,10 +32,19 @@ export interface NativeModuleDiagnostics {
   availableCount: number;
   /** Total number of unavailable modules. */
   unavailableCount: number;
+  /** Names of missing modules that are running on a fallback. */
+  degraded: string[];
   /** Summary string suitable for logging. */
   summary: string;
 }
 
+/**
+ * Fallback state for modules that can run degraded when missing.
+ */
+const DEGRADED_CHECKS: Record<string, () => boolean> = {
+  '@react-native-async-storage/async-storage': isStorageDegraded,
+};
+
 /**
  * Native modules checked by this diagnostic.
  */
@@ -40,6 +53,10 @@ const NATIVE_MODULES = [
     name: '@react-native-async-storage/async-storage',
     description: 'AsyncStorage (RNStorage, AdvancedRNStorage)',
   },
+  {
+    name: 'react-native-keychain',
+    description: 'Keychain/Keystore (RNSecureStorageService)',
+  },
   {
     name: '@react-native-community/netinfo',
     description: 'NetInfo (RNNetworkService)',
@@ -95,7 +112,7 @@ export function checkNativeModules(): NativeModuleDiagnostics {
         available: true,
       };
     } catch (e) {
-      return {
+      const status: NativeModuleStatus = {
         name: mod.name,
         available: false,
         error:
@@ -103,6 +120,8 @@ export function checkNativeModules(): NativeModuleDiagnostics {
             ? e.message
             : `Failed to load ${mod.name}: ${String(e)}`,
       };
+      if (DEGRADED_CHECKS[mod.name]?.()) status.degraded = true;
+      return status;
     }
   });
 
@@ -112,16 +131,21 @@ export function checkNativeModules(): NativeModuleDiagnostics {
     .filter((m) => !m.available)
     .map((m) => m.name)
     .join(', ');
+  const degraded = modules.filter((m) => m.degraded).map((m) => m.name);
 
-  const summary =
+  let summary =
     unavailableCount === 0
       ? `Native modules: ${availableCount}/${modules.length} available. All modules linked.`
       : `Native modules: ${availableCount}/${modules.length} available. Missing: ${missingNames}`;
+  if (degraded.length > 0) {
+    summary += `. Running on fallback: ${degraded.join(', ')}`;
+  }
 
   return {
     modules,
     availableCount,
     unavailableCount,
+    degraded,
     summary,
   };
 }
@@ -12,16 +12,169 @@ export {
   AdvancedRNStorage,
   rnStorage,
   advancedRNStorage,
+  type RNStorageOptions,
+  type AdvancedRNStorageOptions,
+  type AdvancedStorageEntry,
+  type StorageChangeType,
+  type StorageChangeEvent,
+  type StorageChangeListener,
+  type ExpirySweepResult,
+  type ExpirySweeperOptions,
+  StorageQuotaExceededError,
+  type StorageStats,
+  type StorageBudgetOptions,
+  subscribeToStorageWarnings,
+  isStorageDegraded,
+  type StorageWarning,
+  type StorageWarningListener,
+  type RNStorageWriteOptions,
+  type AdvancedSetOptions,
+  type StoredItemWithMetadata,
+  type ClearPatternOptions,
 } from './storage/storage.rn.js';
 
+export {
+  MemoryStorageBackend,
+  MMKVStorageBackend,
+  SQLiteStorageBackend,
+  type StorageBackend,
+  type MMKVLike,
+  type SQLiteDatabaseLike,
+  type SQLiteStorageBackendOptions,
+} from './storage/storage-backends.js';
+
+export {
+  StorageSnapshotError,
+  type StorageSnapshot,
+  type StorageSnapshotEntry,
+  type StorageSnapshotOptions,
+  type StorageImportOptions,
+  type StorageKeyPattern,
+  type StorageSnapshotPattern,
+} from './storage/storage-snapshot.js';
+
+export {
+  StorageFetchCache,
+  storageFetchCache,
+  type GetOrFetchOptions,
+  type StorageFetchCacheOptions,
+} from './storage/fetch-cache.js';
+
+export {
+  StorageChunkError,
+  type ChunkingOptions,
+} from './storage/storage-chunks.js';
+
+export {
+  defineStorageKey,
+  getRegisteredStorageKeys,
+  resetStorageKeyRegistry,
+  type StorageKey,
+  type StorageKeyDefinition,
+  type StorageKeyInfo,
+} from './storage/storage-keys.js';
+
+export {
+  richCodec,
+  jsonCodec,
+  stringCodec,
+  registerStorageType,
+  resetStorageTypes,
+  StorageTypeError,
+  type StorageCodec,
+  type StorageTypeHandler,
+} from './storage/storage-codec.js';
+
+export {
+  RNSecureStorageService,
+  SecureStorageUnavailableError,
+  setKeychainModule,
+  isSecureStorageAvailable,
+  getSecureStorageService,
+  initializeSecureStorageService,
+  resetSecureStorageService,
+  type RNSecureStorageOptions,
+  type SecureSetOptions,
+  type SecureGetOptions,
+  type SecureAccessible,
+  type SecureBiometrics,
+  type SecureAuthenticationPrompt,
+  type KeychainModuleLike,
+  type KeychainOptions,
+} from './storage/secure-storage.rn.js';
+
+export {
+  QUARANTINE_PREFIX,
+  type QuarantinedEntry,
+} from './storage/storage-quarantine.js';
+
+export {
+  PersistedQueue,
+  type PersistedQueueOptions,
+  type QueueItem,
+  type DeadLetter,
+  type NackOptions,
+  type QueueLengthListener,
+} from './storage/persisted-queue.js';
+
+export {
+  CoalescingWriter,
+  setAppStateModule,
+  type CoalescingWriterOptions,
+} from './storage/coalescing-writer.js';
+
+export {
+  getStorageMetrics,
+  resetStorageMetrics,
+  type StorageInstrumentationOptions,
+  type StorageOperationMetrics,
+} from './storage/storage-instrumentation.js';
+
+export { useStoredValue } from './storage/useStoredValue.js';
+
+export type {
+  StorageCacheOptions,
+  StorageCacheStats,
+} from './storage/memory-cache.js';
+
+export {
+  AesGcmStorageCipher,
+  StorageEncryptionError,
+  type StorageCipher,
+  type AesGcmCryptoProvider,
+  type AesGcmStorageCipherOptions,
+} from './storage/storage-encryption.js';
+
 export {
   RNStorageService,
   RNSerializedStorageService,
   getStorageService,
   initializeStorageService,
   resetStorageService,
+  getDeviceStorageService,
+  switchUser,
+  getActiveUserId,
+  wipeUserData,
+  USER_PARTITION_NAMESPACE,
+  type RNSerializedStorageOptions,
 } from './storage/storage-singleton.js';
 
+export {
+  registerMigration,
+  resetMigrations,
+  getSchemaVersion,
+  StorageMigrationError,
+  type StorageMigration,
+} from './storage/storage-migrations.js';
+
+export {
+  StorageValidationError,
+  type StorageValidator,
+  type StorageTypeGuard,
+  type StorageSchema,
+  type StorageReadResult,
+} from './storage/storage-validation.js';
+
 // Network
 export {
   RNNetworkClient,
@@ -30,6 +183,9 @@ export {
   rnNetworkClient,
   rnNetworkService,
   setNetInfoModule,
+  type RetryPolicy,
+  type RetryErrorKind,
+  type RNNetworkRequestOptions,
 } from './network/network.rn.js';
 
 export {
@@ -1,4 +1,8 @@
-import { RNNetworkService, RNNetworkClient } from './network.rn.js';
+import {
+  RNNetworkService,
+  RNNetworkClient,
+  type RetryPolicy,
+} from './network.rn.js';
 
 // Singleton management for network service
 let networkService: RNNetworkService | null = null;
@@ -85,18 +89,24 @@ export function getNetworkClient(): RNNetworkClient {
 }
 
 /**
- * Initialize the network client singleton with an optional custom timeout.
+ * Initialize the network client singleton with an optional custom timeout
+ * and retry policy.
  *
  * @param timeout - Optional default request timeout in milliseconds.
+ * @param retryPolicy - Optional default retry policy.
  * @returns The initialized `RNNetworkClient` singleton.
  *
  * @example
  * ```ts
  * initializeNetworkClient(15000); // 15s timeout
+ * initializeNetworkClient(15000, { maxAttempts: 3 }); // with retries
  * ```
  */
-export function initializeNetworkClient(timeout?: number): RNNetworkClient {
-  networkClient = new RNNetworkClient(timeout);
+export function initializeNetworkClient(
+  timeout?: number,
+  retryPolicy?: RetryPolicy
+): RNNetworkClient {
+  networkClient = new RNNetworkClient(timeout, retryPolicy);
   return networkClient;
 }
 
@@ -51,11 +51,87 @@ function getNetInfo(): NetInfoModuleType['default'] | null {
   return netInfoModule?.default ?? null;
 }
 
+/** Failures without a response that a `RetryPolicy` can retry. */
+export type RetryErrorKind = 'timeout' | 'network';
+
+/**
+ * When and how `RNNetworkClient` retries a failed request.
+ */
+export interface RetryPolicy {
+  /** Total attempts, including the first. Defaults to 1 (no retries). */
+  maxAttempts?: number | undefined;
+  /** Delay (ms) before the first retry; doubled for each further retry. Defaults to 300. */
+  baseDelayMs?: number | undefined;
+  /** Upper bound (ms) for a single delay, including `Retry-After`. Defaults to 10000. */
+  maxDelayMs?: number | undefined;
+  /**
+   * Pick each delay uniformly between 0 and the exponential delay ("full
+   * jitter") so clients do not retry in lockstep. Defaults to `true`.
+   */
+  jitter?: boolean | undefined;
+  /** Response statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504. */
+  retryOnStatus?: readonly number[] | undefined;
+  /** Failures without a response that are retried. Defaults to both kinds. */
+  retryOnErrors?: readonly RetryErrorKind[] | undefined;
+  /**
+   * Also retry POST and PATCH requests. Only enable this for endpoints that
+   * tolerate duplicates (e.g. with an idempotency key). Defaults to `false`.
+   */
+  retryNonIdempotent?: boolean | undefined;
+  /**
+   * Wait as long as a `Retry-After` header asks. A response asking for
+   * more than `maxDelayMs` is returned without retrying. Defaults to `true`.
+   */
+  respectRetryAfter?: boolean | undefined;
+}
+
+/**
+ * Request options accepted by `RNNetworkClient`.
+ */
+export interface RNNetworkRequestOptions extends NetworkRequestOptions {
+  /** Override the client's retry policy for this request, or `false` to disable retries. */
+  retry?: RetryPolicy | false | undefined;
+}
+
+const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+const NON_IDEMPOTENT_METHODS = new Set(['POST', 'PATCH']);
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date).
+ *
+ * @returns The delay in milliseconds, or `null` if absent or unparseable.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for `ms`, resolving early if the signal is aborted.
+ */
+function sleep(ms: number, signal?: Optional<AbortSignal>): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+    function done(): void {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
 /**
  * React Native Network Client implementing `NetworkClient` from `@sudobility/types`.
  *
  * Uses React Native's built-in `fetch` with configurable timeout and `AbortController`
- * for request cancellation.
+ * for request cancellation. Transient failures can be retried with
+ * exponential backoff by passing a `RetryPolicy`.
  *
  * @example
  * ```ts
@@ -64,26 +140,37 @@ function getNetInfo(): NetInfoModuleType['default'] | null {
  * if (response.ok) {
  *   console.log(response.data);
  * }
+ *
+ * // Up to 4 attempts on 5xx, 429, timeouts and connection errors
+ * const resilient = new RNNetworkClient(15000, { maxAttempts: 4 });
  * ```
  */
 export class RNNetworkClient implements NetworkClient {
   private defaultTimeout: number;
+  private retryPolicy: RetryPolicy;
 
   /**
    * Create a new RNNetworkClient.
    *
    * @param defaultTimeout - Default request timeout in milliseconds. Defaults to 30000 (30s).
+   * @param retryPolicy - Default retry policy. Defaults to a single attempt.
+   * @throws Error if `retryPolicy.maxAttempts` is not a positive integer.
    */
-  constructor(defaultTimeout: number = 30000) {
+  constructor(defaultTimeout: number = 30000, retryPolicy: RetryPolicy = {}) {
     this.defaultTimeout = defaultTimeout;
+    this.retryPolicy = retryPolicy;
+    validateRetryPolicy(retryPolicy);
   }
 
   /**
    * Make an HTTP request with automatic timeout handling.
    *
+   * Failed attempts are retried according to the retry policy. The last
+   * response is returned (or the last error thrown) once attempts run out.
+   *
    * @typeParam T - The expected response data type.
    * @param url - The request URL.
-   * @param options - Optional request options (method, headers, body, timeout).
+   * @param options - Optional request options (method, headers, body, timeout, retry).
    * @returns A `NetworkResponse` containing the parsed response data and metadata.
    * @throws NetworkError if the request times out (status 408).
    * @throws Error for other network failures.
@@ -93,14 +180,72 @@ export class RNNetworkClient implements NetworkClient {
    * const res = await client.request<{ id: string }>('/api/item', {
    *   method: 'POST',
    *   body: '{"name":"test"}',
-   *   headers: { 'Content-Type': 'application/json' },
+   *   headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+   *   retry: { maxAttempts: 3, retryNonIdempotent: true },
    * });
    * ```
    */
   async request<T = unknown>(
     url: string,
-    options?: Optional<NetworkRequestOptions>
+    options?: Optional<RNNetworkRequestOptions>
   ): Promise<NetworkResponse<T>> {
+    const policy = this.resolveRetryPolicy(options);
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    const maxDelay = policy?.maxDelayMs ?? 10_000;
+    const retryStatuses = policy?.retryOnStatus ?? DEFAULT_RETRY_STATUSES;
+    const retryErrors = policy?.retryOnErrors ?? ['timeout', 'network'];
+
+    // Attempts that fail with a retryable status or error wait and loop;
+    // anything else returns or throws
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt < maxAttempts && !options?.signal?.aborted;
+      let response: Response;
+      try {
+        response = await this.fetchOnce(url, options);
+      } catch (error) {
+        const kind = classifyError(error);
+        if (!canRetry || !kind || !retryErrors.includes(kind)) throw error;
+        await sleep(this.backoffDelay(attempt, policy), options?.signal);
+        // Cancelled while waiting: report the last failure instead of retrying
+        if (options?.signal?.aborted) throw error;
+        continue;
+      }
+
+      if (canRetry && retryStatuses.includes(response.status)) {
+        const retryAfter =
+          (policy?.respectRetryAfter ?? true)
+            ? parseRetryAfter(response.headers.get('retry-after'))
+            : null;
+        if (retryAfter === null || retryAfter <= maxDelay) {
+          await sleep(
+            retryAfter ?? this.backoffDelay(attempt, policy),
+            options?.signal
+          );
+          if (!options?.signal?.aborted) continue;
+        }
+      }
+
+      const data = await this.parseResponse<T>(response);
+
+      return {
+        success: response.ok,
+        data,
+        timestamp: new Date().toISOString(),
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.parseHeaders(response.headers),
+        ok: response.ok,
+      };
+    }
+  }
+
+  /**
+   * Make a single fetch attempt with timeout handling.
+   */
+  private async fetchOnce(
+    url: string,
+    options?: Optional<RNNetworkRequestOptions>
+  ): Promise<Response> {
     const timeout = options?.timeout ?? this.defaultTimeout;
 
     const controller = new AbortController();
@@ -121,18 +266,7 @@ export class RNNetworkClient implements NetworkClient {
 
       const response = await fetch(url, fetchOptions);
       clearTimeout(timeoutId);
-
-      const data = await this.parseResponse<T>(response);
-
-      return {
-        success: response.ok,
-        data,
-        timestamp: new Date().toISOString(),
-        status: response.status,
-        statusText: response.statusText,
-        headers: this.parseHeaders(response.headers),
-        ok: response.ok,
-      };
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
 
@@ -149,12 +283,12 @@ export class RNNetworkClient implements NetworkClient {
    *
    * @typeParam T - The expected response data type.
    * @param url - The request URL.
-   * @param options - Optional request options (headers, timeout).
+   * @param options - Optional request options (headers, timeout, retry).
    * @returns A `NetworkResponse` containing the parsed response data.
    */
   async get<T = unknown>(
     url: string,
-    options?: Optional<Omit<NetworkRequestOptions, 'method' | 'body'>>
+    options?: Optional<Omit<RNNetworkRequestOptions, 'method' | 'body'>>
   ): Promise<NetworkResponse<T>> {
     return this.request<T>(url, { ...options, method: 'GET' });
   }
@@ -165,13 +299,13 @@ export class RNNetworkClient implements NetworkClient {
    * @typeParam T - The expected response data type.
    * @param url - The request URL.
    * @param body - Optional request body (objects are JSON-serialized).
-   * @param options - Optional request options (headers, timeout).
+   * @param options - Optional request options (headers, timeout, retry).
    * @returns A `NetworkResponse` containing the parsed response data.
    */
   async post<T = unknown>(
     url: string,
     body?: Optional<unknown>,
-    options?: Optional<Omit<NetworkRequestOptions, 'method'>>
+    options?: Optional<Omit<RNNetworkRequestOptions, 'method'>>
   ): Promise<NetworkResponse<T>> {
     const bodyToSend = this.convertBody(body);
     return this.request<T>(url, {
@@ -187,13 +321,13 @@ export class RNNetworkClient implements NetworkClient {
    * @typeParam T - The expected response data type.
    * @param url - The request URL.
    * @param body - Optional request body (objects are JSON-serialized).
-   * @param options - Optional request options (headers, timeout).
+   * @param options - Optional request options (headers, timeout, retry).
    * @returns A `NetworkResponse` containing the parsed response data.
    */
   async put<T = unknown>(
     url: string,
     body?: Optional<unknown>,
-    options?: Optional<Omit<NetworkRequestOptions, 'method'>>
+    options?: Optional<Omit<RNNetworkRequestOptions, 'method'>>
   ): Promise<NetworkResponse<T>> {
     const bodyToSend = this.convertBody(body);
     return this.request<T>(url, {
@@ -208,16 +342,46 @@ export class RNNetworkClient implements NetworkClient {
    *
    * @typeParam T - The expected response data type.
    * @param url - The request URL.
-   * @param options - Optional request options (headers, timeout).
+   * @param options - Optional request options (headers, timeout, retry).
    * @returns A `NetworkResponse` containing the parsed response data.
    */
   async delete<T = unknown>(
     url: string,
-    options?: Optional<Omit<NetworkRequestOptions, 'method' | 'body'>>
+    options?: Optional<Omit<RNNetworkRequestOptions, 'method' | 'body'>>
   ): Promise<NetworkResponse<T>> {
     return this.request<T>(url, { ...options, method: 'DELETE' });
   }
 
+  /**
+   * Merge the client's retry policy with a per-request override.
+   *
+   * @returns The policy to apply, or `null` if the request must not be retried.
+   */
+  private resolveRetryPolicy(
+    options?: Optional<RNNetworkRequestOptions>
+  ): RetryPolicy | null {
+    if (options?.retry === false) return null;
+    const policy = { ...this.retryPolicy, ...options?.retry };
+    if (options?.retry) validateRetryPolicy(policy);
+    // fetch accepts methods in any case
+    const method = (options?.method ?? 'GET').toUpperCase();
+    if (NON_IDEMPOTENT_METHODS.has(method) && !policy.retryNonIdempotent) {
+      return null;
+    }
+    return policy;
+  }
+
+  /**
+   * Delay before the retry following `attempt`: exponential, capped, and
+   * optionally jittered.
+   */
+  private backoffDelay(attempt: number, policy: RetryPolicy | null): number {
+    const base = policy?.baseDelayMs ?? 300;
+    const max = policy?.maxDelayMs ?? 10_000;
+    const delay = Math.min(max, base * 2 ** (attempt - 1));
+    return (policy?.jitter ?? true) ? Math.random() * delay : delay;
+  }
+
   private convertBody(
     body: Optional<unknown>
   ): Optional<string | FormData | Blob> {
@@ -258,6 +422,33 @@ export class RNNetworkClient implements NetworkClient {
   }
 }
 
+/**
+ * Check a retry policy's attempt count.
+ *
+ * @throws Error if `maxAttempts` is not a positive integer.
+ */
+function validateRetryPolicy(policy: RetryPolicy): void {
+  const { maxAttempts } = policy;
+  if (
+    maxAttempts !== undefined &&
+    !(Number.isInteger(maxAttempts) && maxAttempts >= 1)
+  ) {
+    throw new Error(`Invalid retry maxAttempts: ${maxAttempts}`);
+  }
+}
+
+/**
+ * Classify an error thrown by a fetch attempt.
+ *
+ * @returns `'timeout'` for request timeouts, `'network'` for connection
+ *   failures (`fetch` rejects with a `TypeError`), or `null` otherwise.
+ */
+function classifyError(error: unknown): RetryErrorKind | null {
+  if (error instanceof NetworkError && error.status === 408) return 'timeout';
+  if (error instanceof TypeError) return 'network';
+  return null;
+}
+
 /**
  * Network error with HTTP status code and status text.
  *
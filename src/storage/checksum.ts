@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Non-cryptographic checksum for detecting truncated or
+ * accidentally altered stored data. Not a defence against tampering.
+ */
+
+/**
+ * FNV-1a (32-bit) hash of a string's UTF-16 code units.
+ *
+ * @param text - The text to hash.
+ * @returns The hash as 8 lowercase hex digits.
+ */
+export function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,309 @@
+/**
+ * @fileoverview Debounced/throttled object writes for high-frequency state.
+ *
+ * `CoalescingWriter` sits in front of an `RNSerializedStorageService` and
+ * collapses bursts of `setObject()` calls for the same key (draft text,
+ * scroll positions) into a single bridge write. Pending values are flushed
+ * on demand and when the app moves to the background, and reads see them
+ * before they reach storage.
+ */
+
+import type { Optional } from '@sudobility/types';
+import type { RNSerializedStorageService } from './storage-singleton.js';
+import {
+  validateStoredValue,
+  StorageValidationError,
+  type StorageValidator,
+} from './storage-validation.js';
+import { getLogger } from '../logging/logging.rn.js';
+
+// Lazy load AppState to avoid issues at module load time
+type AppStateType = typeof import('react-native').AppState;
+let AppStateModule: AppStateType | null = null;
+let AppStateOverride: AppStateType | null = null;
+
+/**
+ * Inject a mock or custom AppState module for testing.
+ *
+ * @param appState - The AppState API to use, or `null` to reset and use the real module.
+ *
+ * @example
+ * ```ts
+ * // In tests:
+ * setAppStateModule(mockAppState);
+ * ```
+ */
+export function setAppStateModule(appState: AppStateType | null): void {
+  AppStateOverride = appState;
+  AppStateModule = null; // Reset cached module so override takes effect
+}
+
+/**
+ * Lazily load and return the React Native AppState API.
+ *
+ * @returns The AppState module, or `null` if not available.
+ */
+function getAppState(): AppStateType | null {
+  if (AppStateOverride) return AppStateOverride;
+
+  if (!AppStateModule) {
+    try {
+      const RN: { AppState: AppStateType } = require('react-native');
+      AppStateModule = RN.AppState;
+    } catch (e) {
+      console.warn('AppState not available:', e);
+    }
+  }
+  return AppStateModule;
+}
+
+/**
+ * Options for `CoalescingWriter`.
+ */
+export interface CoalescingWriterOptions {
+  /**
+   * `'debounce'` writes once a key has been quiet for `wait` ms;
+   * `'throttle'` writes at most once per `wait` ms, keeping the latest
+   * value. Defaults to `'debounce'`.
+   */
+  mode?: 'debounce' | 'throttle' | undefined;
+  /** Delay (ms) used by the mode. Defaults to 300. */
+  wait?: number | undefined;
+  /**
+   * Debounce only: longest time (ms) a value may stay pending while writes
+   * keep arriving. Defaults to no limit.
+   */
+  maxWait?: number | undefined;
+  /** Flush pending writes when the app goes to the background. Defaults to `true`. */
+  flushOnBackground?: boolean | undefined;
+}
+
+interface PendingWrite {
+  value: unknown;
+  // When the key first became pending, for maxWait
+  since: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface InFlightWrite {
+  value: unknown;
+  promise: Promise<void>;
+}
+
+/**
+ * Coalesces frequent `setObject()` calls per key.
+ *
+ * Only the latest value of a burst is written. `getObject()` returns a
+ * pending or in-flight value before it has been stored, so callers never
+ * read stale data. Values still pending when the process is killed are
+ * lost; call `flush()` before anything that must be durable.
+ *
+ * @example
+ * ```ts
+ * const drafts = new CoalescingWriter(new RNSerializedStorageService(), {
+ *   wait: 500,
+ *   maxWait: 5_000,
+ * });
+ *
+ * const onChangeText = (text: string) => drafts.setObject(`draft:${id}`, { text });
+ *
+ * const draft = await drafts.getObject<Draft>(`draft:${id}`); // sees pending text
+ * await drafts.flush(); // e.g. before sending
+ * ```
+ */
+export class CoalescingWriter {
+  private readonly service: RNSerializedStorageService;
+  private readonly mode: 'debounce' | 'throttle';
+  private readonly wait: number;
+  private readonly maxWait: number | undefined;
+  private readonly pending = new Map<string, PendingWrite>();
+  private readonly inFlight = new Map<string, InFlightWrite>();
+  // Throttle mode: when each key was last written
+  private readonly lastWriteAt = new Map<string, number>();
+  private appStateSubscription: { remove: () => void } | null = null;
+
+  /**
+   * @param service - The serialized storage service to write through.
+   * @param options - Mode, delays and background flushing.
+   * @throws Error if `wait` or `maxWait` is not a non-negative number.
+   */
+  constructor(
+    service: RNSerializedStorageService,
+    options: CoalescingWriterOptions = {}
+  ) {
+    const { mode = 'debounce', wait = 300, maxWait } = options;
+    if (!(wait >= 0)) throw new Error(`Invalid wait: ${wait}`);
+    if (maxWait !== undefined && !(maxWait >= 0)) {
+      throw new Error(`Invalid maxWait: ${maxWait}`);
+    }
+    this.service = service;
+    this.mode = mode;
+    this.wait = wait;
+    this.maxWait = maxWait;
+
+    if (options.flushOnBackground ?? true) {
+      this.appStateSubscription =
+        getAppState()?.addEventListener('change', (state) => {
+          if (state === 'background' || state === 'inactive') {
+            this.flush().catch(() => {
+              // Already logged per key by writeNow()
+            });
+          }
+        }) ?? null;
+    }
+  }
+
+  /**
+   * Schedule an object write, replacing any pending value for the key.
+   *
+   * @typeParam T - The type of the object to store.
+   * @param key - The storage key.
+   * @param value - The object to store.
+   */
+  setObject<T>(key: string, value: T): void {
+    const now = Date.now();
+    const existing = this.pending.get(key);
+    const since = existing?.since ?? now;
+
+    let delay: number;
+    if (this.mode === 'throttle') {
+      if (existing) {
+        // Keep the window already scheduled, just swap the value
+        existing.value = value;
+        return;
+      }
+      delay = Math.max(
+        0,
+        (this.lastWriteAt.get(key) ?? -Infinity) + this.wait - now
+      );
+    } else {
+      if (existing?.timer) clearTimeout(existing.timer);
+      delay = this.wait;
+      if (this.maxWait !== undefined) {
+        delay = Math.min(delay, Math.max(0, since + this.maxWait - now));
+      }
+    }
+
+    const entry: PendingWrite = { value, since, timer: null };
+    this.pending.set(key, entry);
+    if (this.mode === 'throttle' && delay === 0) {
+      this.flushKey(key).catch(() => {});
+      return;
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      this.flushKey(key).catch(() => {});
+    }, delay);
+  }
+
+  /**
+   * Read an object, preferring a value that has not been written yet.
+   *
+   * @typeParam T - The expected type of the stored object.
+   * @param key - The storage key.
+   * @param validator - Optional type guard or zod-style schema.
+   * @returns The pending or stored object, or `null` if missing or invalid.
+   */
+  async getObject<T>(
+    key: string,
+    validator?: StorageValidator<T>
+  ): Promise<Optional<T>> {
+    const local = this.pending.get(key) ?? this.inFlight.get(key);
+    if (!local) {
+      return validator
+        ? this.service.getObject(key, validator)
+        : this.service.getObject<T>(key);
+    }
+    if (!validator) return local.value as T;
+    try {
+      return validateStoredValue(key, validator, local.value);
+    } catch (e) {
+      if (e instanceof StorageValidationError) return null;
+      throw e;
+    }
+  }
+
+  /**
+   * Drop any pending value and remove the stored object.
+   *
+   * @param key - The storage key.
+   */
+  async removeObject(key: string): Promise<void> {
+    const entry = this.pending.get(key);
+    if (entry?.timer) clearTimeout(entry.timer);
+    this.pending.delete(key);
+    this.inFlight.delete(key);
+    await this.service.removeObject(key);
+  }
+
+  /**
+   * Whether values are waiting to be written.
+   *
+   * @param key - Limit the check to one key.
+   */
+  hasPendingWrites(key?: string): boolean {
+    if (key !== undefined) {
+      return this.pending.has(key) || this.inFlight.has(key);
+    }
+    return this.pending.size > 0 || this.inFlight.size > 0;
+  }
+
+  /**
+   * Write pending values now.
+   *
+   * @param key - Flush only this key. Defaults to every pending key.
+   * @throws The first write error; every key is still attempted.
+   */
+  async flush(key?: string): Promise<void> {
+    const keys =
+      key !== undefined
+        ? [key]
+        : [...new Set([...this.pending.keys(), ...this.inFlight.keys()])];
+    const results = await Promise.allSettled(keys.map((k) => this.flushKey(k)));
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failure) throw failure.reason;
+  }
+
+  /**
+   * Flush pending values and stop listening for app state changes.
+   */
+  async dispose(): Promise<void> {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    await this.flush();
+  }
+
+  private async flushKey(key: string): Promise<void> {
+    const entry = this.pending.get(key);
+    if (!entry) {
+      await this.inFlight.get(key)?.promise;
+      return;
+    }
+    if (entry.timer) clearTimeout(entry.timer);
+    this.pending.delete(key);
+    await this.writeNow(key, entry.value);
+  }
+
+  private async writeNow(key: string, value: unknown): Promise<void> {
+    this.lastWriteAt.set(key, Date.now());
+    const promise = this.service.setObject(key, value);
+    const write: InFlightWrite = { value, promise };
+    this.inFlight.set(key, write);
+    try {
+      await promise;
+    } catch (e) {
+      getLogger()
+        .child('Storage')
+        .error(
+          `Coalesced write for "${key}" failed: ${
+            e instanceof Error ? e.message : String(e)
+          }`
+        );
+      throw e;
+    } finally {
+      if (this.inFlight.get(key) === write) this.inFlight.delete(key);
+    }
+  }
+}
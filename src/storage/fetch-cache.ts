@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Stale-while-revalidate cache over `AdvancedRNStorage`.
+ *
+ * Wraps the usual "read from storage, else fetch, then store with a TTL"
+ * flow: cached data is returned at once, stale data is refreshed in the
+ * background, and concurrent callers share one in-flight fetch.
+ */
+
+import { AdvancedRNStorage, advancedRNStorage } from './storage.rn.js';
+
+/**
+ * Options for `StorageFetchCache.getOrFetch`.
+ */
+export interface GetOrFetchOptions {
+  /** How long (ms) fetched data is fresh and returned without refetching. */
+  ttl: number;
+  /**
+   * How long (ms) after `ttl` stale data is still returned immediately
+   * while a background refresh runs. Defaults to `0` (no stale data).
+   */
+  staleWhileRevalidate?: number;
+  /** Share one in-flight fetch between concurrent callers. Defaults to `true`. */
+  dedupe?: boolean;
+}
+
+/**
+ * Options for constructing a `StorageFetchCache`.
+ */
+export interface StorageFetchCacheOptions {
+  /** Storage holding the cached data. Defaults to the `advancedRNStorage` singleton. */
+  storage?: AdvancedRNStorage;
+  /** Called when a background refresh fails. Defaults to `console.warn`. */
+  onError?: (error: unknown, key: string) => void;
+}
+
+/**
+ * Cache helper returning persisted data and refreshing it from the network.
+ *
+ * Data must be JSON-serializable. Values written through other APIs (without
+ * a TTL envelope) are treated as missing and refetched.
+ *
+ * @example
+ * ```ts
+ * const cache = new StorageFetchCache();
+ *
+ * const profile = await cache.getOrFetch(
+ *   'cache:profile',
+ *   () => rnNetworkClient.get<Profile>('/me').then((res) => res.data),
+ *   { ttl: 60000, staleWhileRevalidate: 600000 }
+ * );
+ *
+ * const unsubscribe = cache.subscribe<Profile>('cache:profile', setProfile);
+ * ```
+ */
+export class StorageFetchCache {
+  private storage: AdvancedRNStorage;
+  private onError: (error: unknown, key: string) => void;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private listeners = new Map<string, Set<(value: unknown) => void>>();
+
+  /**
+   * Create a new StorageFetchCache.
+   *
+   * @param options - Optional backing storage and background error handler.
+   */
+  constructor(options: StorageFetchCacheOptions = {}) {
+    this.storage = options.storage ?? advancedRNStorage;
+    this.onError =
+      options.onError ??
+      ((error, key) => {
+        console.warn(`Background refresh of "${key}" failed:`, error);
+      });
+  }
+
+  /**
+   * Return cached data, fetching it when missing or too old.
+   *
+   * - Fresh data (younger than `ttl`) is returned as is.
+   * - Stale data (within `staleWhileRevalidate` after `ttl`) is returned at
+   *   once and refreshed in the background; subscribers get the new value.
+   * - Otherwise the fetcher is awaited and its result stored.
+   *
+   * @typeParam T - The type of the fetched data.
+   * @param key - The storage key to cache under.
+   * @param fetcher - Loads fresh data (e.g. through `RNNetworkClient`).
+   * @param options - Freshness, stale window and dedupe options.
+   * @returns The cached or freshly fetched data.
+   * @throws Whatever the fetcher throws, when there is no usable cached data.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: GetOrFetchOptions
+  ): Promise<T> {
+    const staleWindow = options.staleWhileRevalidate ?? 0;
+    const entry = await this.storage.getItemWithMetadata(key);
+
+    if (entry && entry.writtenAt !== null) {
+      const age = Date.now() - entry.writtenAt;
+      const cached = parseCached(entry.value);
+      if (cached !== undefined && age <= options.ttl + staleWindow) {
+        if (age > options.ttl) {
+          this.fetchAndStore(key, fetcher, options).catch((error: unknown) =>
+            this.onError(error, key)
+          );
+        }
+        return cached as T;
+      }
+    }
+
+    return this.fetchAndStore(key, fetcher, options);
+  }
+
+  /**
+   * Subscribe to values stored by `getOrFetch` for a key, including
+   * background refreshes.
+   *
+   * @typeParam T - The type of the cached data.
+   * @param key - The cache key.
+   * @param listener - Invoked with each newly fetched value.
+   * @returns An unsubscribe function to remove the listener.
+   */
+  subscribe<T>(key: string, listener: (value: T) => void): () => void {
+    let keyListeners = this.listeners.get(key);
+    if (!keyListeners) {
+      keyListeners = new Set();
+      this.listeners.set(key, keyListeners);
+    }
+    const entry = listener as (value: unknown) => void;
+    keyListeners.add(entry);
+    return () => {
+      keyListeners.delete(entry);
+      if (keyListeners.size === 0) this.listeners.delete(key);
+    };
+  }
+
+  /**
+   * Fetch, store and notify, sharing the in-flight fetch when deduping.
+   */
+  private fetchAndStore<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    options: GetOrFetchOptions
+  ): Promise<T> {
+    const dedupe = options.dedupe ?? true;
+    const pending = dedupe ? this.inFlight.get(key) : undefined;
+    if (pending) return pending as Promise<T>;
+
+    const promise = (async () => {
+      const value = await fetcher();
+      await this.storage.setItem(
+        key,
+        JSON.stringify(value),
+        options.ttl + (options.staleWhileRevalidate ?? 0)
+      );
+      this.listeners.get(key)?.forEach((listener) => listener(value));
+      return value;
+    })();
+
+    if (dedupe) {
+      this.inFlight.set(key, promise);
+      const settle = () => {
+        if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+      };
+      promise.then(settle, settle);
+    }
+    return promise;
+  }
+}
+
+/**
+ * Parse cached JSON.
+ *
+ * @returns The parsed value, or `undefined` if the string is not valid JSON.
+ */
+function parseCached(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+// Singleton instance
+export const storageFetchCache = new StorageFetchCache();
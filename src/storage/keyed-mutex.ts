@@ -0,0 +1,40 @@
+/**
+ * @fileoverview In-process per-key mutex used to serialize read-modify-write
+ * cycles on storage keys.
+ */
+
+/**
+ * Runs tasks one at a time per key; tasks for different keys run concurrently.
+ *
+ * Locks are held only within this JS runtime: they do not coordinate with
+ * other processes or native code writing the same store.
+ */
+export class KeyedMutex {
+  // Last queued holder per key; removed once the queue drains
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Run a task while holding the lock for a key.
+   *
+   * @param key - The key to lock.
+   * @param task - The work to run exclusively.
+   * @returns The task's result. The lock is released even if the task throws.
+   */
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => held);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Bounded LRU cache used as a write-through layer in `RNStorage`.
+ */
+
+/**
+ * Options for the in-memory read cache of `RNStorage`.
+ */
+export interface StorageCacheOptions {
+  /** Maximum number of values kept in memory. Least recently used values are evicted first. */
+  maxEntries: number;
+}
+
+/**
+ * Snapshot of cache counters.
+ */
+export interface StorageCacheStats {
+  /** Reads served from memory. */
+  hits: number;
+  /** Reads that had to go to the storage backend. */
+  misses: number;
+  /** Number of values currently cached. */
+  size: number;
+  /** Configured capacity. */
+  maxEntries: number;
+}
+
+/**
+ * Bounded least-recently-used string cache with hit/miss counters.
+ *
+ * Relies on `Map` iteration order: the first key is always the least
+ * recently used one.
+ */
+export class MemoryCache {
+  private entries = new Map<string, string>();
+  private hits = 0;
+  private misses = 0;
+  private readonly maxEntries: number;
+  // Write generations: each set/delete/clear takes the next number. Keys
+  // without a stamp are at `generationFloor`.
+  private writeCount = 0;
+  private generationFloor = 0;
+  private writeStamps = new Map<string, number>();
+
+  /**
+   * Create a new MemoryCache.
+   *
+   * @param options - Cache capacity.
+   * @throws Error if `maxEntries` is not a positive integer.
+   */
+  constructor(options: StorageCacheOptions) {
+    if (!Number.isInteger(options.maxEntries) || options.maxEntries < 1) {
+      throw new Error('Cache maxEntries must be a positive integer');
+    }
+    this.maxEntries = options.maxEntries;
+  }
+
+  /**
+   * Look up a value and count the hit or miss.
+   *
+   * @param key - The cache key.
+   * @returns The cached value, or `undefined` on a miss.
+   */
+  get(key: string): string | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Store a written value, evicting the least recently used entry when full.
+   *
+   * @param key - The cache key.
+   * @param value - The value to cache.
+   */
+  set(key: string, value: string): void {
+    this.bumpGeneration(key);
+    this.store(key, value);
+  }
+
+  /**
+   * Get the write generation of a key, to pass to `fill()` once a backend
+   * read started now completes.
+   *
+   * @param key - The cache key.
+   */
+  generation(key: string): number {
+    return this.writeStamps.get(key) ?? this.generationFloor;
+  }
+
+  /**
+   * Cache a value read from the backend, unless the key was written,
+   * removed or cleared since the read started.
+   *
+   * @param key - The cache key.
+   * @param value - The value read.
+   * @param generation - `generation(key)` taken before the read.
+   */
+  fill(key: string, value: string, generation: number): void {
+    if (this.generation(key) === generation) this.store(key, value);
+  }
+
+  private store(key: string, value: string): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove a value from the cache.
+   *
+   * @param key - The cache key.
+   */
+  delete(key: string): void {
+    this.bumpGeneration(key);
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove every cached value. Counters are kept.
+   */
+  clear(): void {
+    this.resetGenerations();
+    this.entries.clear();
+  }
+
+  private bumpGeneration(key: string): void {
+    this.writeStamps.set(key, ++this.writeCount);
+    // Bound the stamps; reads in flight then simply skip caching
+    if (this.writeStamps.size > this.maxEntries * 4) this.resetGenerations();
+  }
+
+  private resetGenerations(): void {
+    this.generationFloor = ++this.writeCount;
+    this.writeStamps.clear();
+  }
+
+  /**
+   * Get the current counters.
+   *
+   * @returns A `StorageCacheStats` snapshot.
+   */
+  getStats(): StorageCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+    };
+  }
+
+  /**
+   * Reset the hit and miss counters to zero.
+   */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+  }
+}
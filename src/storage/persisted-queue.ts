@@ -0,0 +1,416 @@
+/**
+ * @fileoverview Crash-safe FIFO queue persisted in storage.
+ *
+ * `PersistedQueue` keeps outbound work (mail to send, analytics batches,
+ * uploads) on disk so it survives app kills. Consumers lease the head item
+ * with `peek()`, then `ack()` it once done or `nack()` it to retry later.
+ * Items that keep failing are moved to a dead-letter list instead of
+ * blocking the queue.
+ */
+
+import type { Optional } from '@sudobility/types';
+import { RNStorage, rnStorage } from './storage.rn.js';
+import { richCodec, type StorageCodec } from './storage-codec.js';
+import { KeyedMutex } from './keyed-mutex.js';
+
+/**
+ * Options for `PersistedQueue`.
+ */
+export interface PersistedQueueOptions {
+  /** Backing storage. Defaults to the `rnStorage` singleton. */
+  storage?: RNStorage | undefined;
+  /**
+   * How long (ms) a leased item stays hidden from `peek()` before it is
+   * handed out again. Defaults to 30 seconds.
+   */
+  visibilityTimeout?: number | undefined;
+  /** Deliveries allowed before an item is dead-lettered. Defaults to 5. */
+  maxAttempts?: number | undefined;
+  /** How payloads are stored. Defaults to `richCodec`. */
+  codec?: StorageCodec<unknown> | undefined;
+}
+
+/**
+ * An item in a `PersistedQueue`.
+ */
+export interface QueueItem<T> {
+  /** Queue-assigned id, increasing in enqueue order. */
+  id: string;
+  /** The enqueued payload. */
+  payload: T;
+  /** Number of times the item was handed out by `peek()`. */
+  attempts: number;
+  /** When the item was enqueued (ms since epoch). */
+  enqueuedAt: number;
+  /** Error message passed to the last `nack()`, if any. */
+  lastError?: string;
+}
+
+/**
+ * An item moved out of the queue after exhausting its attempts.
+ */
+export interface DeadLetter<T> extends QueueItem<T> {
+  /** When the item was dead-lettered (ms since epoch). */
+  deadLetteredAt: number;
+}
+
+/**
+ * Options for `PersistedQueue.nack()`.
+ */
+export interface NackOptions {
+  /** Why processing failed; kept on the item as `lastError`. */
+  error?: unknown;
+  /** Keep the item hidden for this long (ms) before retrying. Defaults to 0. */
+  delay?: number | undefined;
+}
+
+/** Listener notified with the number of pending items. */
+export type QueueLengthListener = (length: number) => void;
+
+const ITEM_PREFIX = 'item:';
+const DEAD_PREFIX = 'dead:';
+// Zero-padded so ids sort lexically in enqueue order
+const ID_WIDTH = 12;
+
+interface QueueEntry<T> {
+  item: QueueItem<T>;
+  // In-memory lease; a restart makes every item visible again
+  visibleAt: number;
+}
+
+/**
+ * Crash-safe FIFO queue with leases, retries and dead-lettering.
+ *
+ * Each item is stored under its own key in the `queue:<name>` namespace, so
+ * every operation is a single write and a kill mid-operation never loses
+ * other items. Items leased when the app dies are handed out again on the
+ * next launch, and rows that can no longer be decoded are moved to
+ * quarantine (see `RNStorage.getQuarantinedEntries()`) so they do not block
+ * the rest of the queue. Use one instance per queue name.
+ *
+ * @typeParam T - The type of the queued payloads.
+ *
+ * @example
+ * ```ts
+ * const outbox = new PersistedQueue<OutgoingMail>('outbox', { maxAttempts: 3 });
+ *
+ * await outbox.enqueue({ to: 'a@example.com', body: 'Hi' });
+ *
+ * const item = await outbox.peek();
+ * if (item) {
+ *   try {
+ *     await sendMail(item.payload);
+ *     await outbox.ack(item.id);
+ *   } catch (error) {
+ *     await outbox.nack(item.id, { error, delay: 5_000 });
+ *   }
+ * }
+ *
+ * const unsubscribe = outbox.subscribe((n) => setBadge(`${n} pending sync`));
+ * ```
+ */
+export class PersistedQueue<T> {
+  readonly name: string;
+  private readonly storage: RNStorage;
+  private readonly visibilityTimeout: number;
+  private readonly maxAttempts: number;
+  private readonly codec: StorageCodec<unknown>;
+  private readonly mutex = new KeyedMutex();
+  private readonly listeners = new Set<QueueLengthListener>();
+  // Pending items in enqueue order, loaded on first use
+  private entries: QueueEntry<T>[] | null = null;
+  private nextSeq = 1;
+
+  /**
+   * @param name - Queue name; items are stored under `queue:<name>`, with
+   *   the name URI-encoded so that names containing `:` cannot nest inside
+   *   another queue's namespace.
+   * @param options - Storage, lease timeout, attempt limit and codec.
+   * @throws Error if the name is empty or an option is out of range.
+   */
+  constructor(name: string, options: PersistedQueueOptions = {}) {
+    if (!name) throw new Error('Queue name must be a non-empty string');
+    const { visibilityTimeout = 30_000, maxAttempts = 5 } = options;
+    if (!(visibilityTimeout > 0)) {
+      throw new Error(`Invalid visibilityTimeout: ${visibilityTimeout}`);
+    }
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error(`Invalid maxAttempts: ${maxAttempts}`);
+    }
+    this.name = name;
+    this.storage = (options.storage ?? rnStorage).scope(
+      `queue:${encodeURIComponent(name)}`
+    );
+    this.visibilityTimeout = visibilityTimeout;
+    this.maxAttempts = maxAttempts;
+    this.codec = options.codec ?? richCodec;
+  }
+
+  /**
+   * Append a payload to the queue.
+   *
+   * @param payload - The work to persist.
+   * @returns The stored item.
+   */
+  async enqueue(payload: T): Promise<QueueItem<T>> {
+    return this.mutex.run('queue', async () => {
+      const entries = await this.load();
+      const item: QueueItem<T> = {
+        id: String(this.nextSeq++).padStart(ID_WIDTH, '0'),
+        payload,
+        attempts: 0,
+        enqueuedAt: Date.now(),
+      };
+      await this.writeItem(item);
+      entries.push({ item, visibleAt: 0 });
+      this.notify();
+      return item;
+    });
+  }
+
+  /**
+   * Lease the oldest visible item.
+   *
+   * The item stays in the queue but is hidden from other `peek()` calls for
+   * the visibility timeout. Its attempt count is incremented and persisted,
+   * so an item that crashes the app on every delivery is still
+   * dead-lettered eventually.
+   *
+   * @returns The leased item, or `null` if nothing is visible.
+   */
+  async peek(): Promise<QueueItem<T> | null> {
+    return this.mutex.run('queue', async () => {
+      const entries = await this.load();
+      const now = Date.now();
+      for (const entry of [...entries]) {
+        if (entry.visibleAt > now) continue;
+        if (entry.item.attempts >= this.maxAttempts) {
+          await this.deadLetter(entry);
+          continue;
+        }
+        entry.item = { ...entry.item, attempts: entry.item.attempts + 1 };
+        entry.visibleAt = now + this.visibilityTimeout;
+        await this.writeItem(entry.item);
+        return entry.item;
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Remove a processed item.
+   *
+   * @param id - The id of an item returned by `peek()`.
+   * @returns `true` if the item was in the queue.
+   */
+  async ack(id: string): Promise<boolean> {
+    return this.mutex.run('queue', async () => {
+      const entries = await this.load();
+      const index = entries.findIndex((entry) => entry.item.id === id);
+      if (index < 0) return false;
+      await this.storage.removeItem(`${ITEM_PREFIX}${id}`);
+      entries.splice(index, 1);
+      this.notify();
+      return true;
+    });
+  }
+
+  /**
+   * Release a leased item after a failure.
+   *
+   * The item keeps its place at the front of the queue and becomes visible
+   * again after `delay`. Once it has used up its attempts it is
+   * dead-lettered instead.
+   *
+   * @param id - The id of an item returned by `peek()`.
+   * @param options - The failure reason and retry delay.
+   * @returns `true` if the item will be retried, `false` if it was
+   *   dead-lettered or is not in the queue.
+   */
+  async nack(id: string, options: NackOptions = {}): Promise<boolean> {
+    return this.mutex.run('queue', async () => {
+      const entries = await this.load();
+      const entry = entries.find((candidate) => candidate.item.id === id);
+      if (!entry) return false;
+
+      entry.item = { ...entry.item };
+      if (options.error !== undefined) {
+        entry.item.lastError =
+          options.error instanceof Error
+            ? options.error.message
+            : String(options.error);
+      }
+      if (entry.item.attempts >= this.maxAttempts) {
+        await this.deadLetter(entry);
+        return false;
+      }
+      entry.visibleAt = Date.now() + (options.delay ?? 0);
+      await this.writeItem(entry.item);
+      return true;
+    });
+  }
+
+  /**
+   * Number of pending items, including leased ones.
+   */
+  async size(): Promise<number> {
+    return this.mutex.run('queue', async () => (await this.load()).length);
+  }
+
+  /**
+   * Subscribe to the number of pending items.
+   *
+   * The listener is called with the current length once the queue is
+   * loaded, then after every enqueue, ack and dead-lettering.
+   *
+   * @param listener - Receives the pending item count.
+   * @returns An unsubscribe function to remove the listener.
+   */
+  subscribe(listener: QueueLengthListener): () => void {
+    this.listeners.add(listener);
+    this.size()
+      .then((length) => {
+        if (this.listeners.has(listener)) listener(length);
+      })
+      .catch(() => {});
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * List dead-lettered items, oldest first.
+   */
+  async getDeadLetters(): Promise<DeadLetter<T>[]> {
+    return this.mutex.run('queue', async () => {
+      const keys = (await this.storage.getAllKeys())
+        .filter((key) => key.startsWith(DEAD_PREFIX))
+        .sort();
+      const rows = await this.storage.multiGet(keys);
+      const deadLetters: DeadLetter<T>[] = [];
+      for (const [key, raw] of rows) {
+        const dead = await this.decodeRow<DeadLetter<T>>(key, raw);
+        if (dead) deadLetters.push(dead);
+      }
+      return deadLetters;
+    });
+  }
+
+  /**
+   * Move a dead-lettered item back to the end of the queue with a fresh
+   * attempt count.
+   *
+   * @param id - The id of the dead-lettered item.
+   * @returns The requeued item, or `null` if no such dead letter exists.
+   */
+  async requeueDeadLetter(id: string): Promise<QueueItem<T> | null> {
+    return this.mutex.run('queue', async () => {
+      const entries = await this.load();
+      const raw = await this.storage.getItem(`${DEAD_PREFIX}${id}`);
+      if (raw == null) return null;
+      const dead = this.codec.decode(raw, this.name) as DeadLetter<T>;
+      const item: QueueItem<T> = {
+        id: String(this.nextSeq++).padStart(ID_WIDTH, '0'),
+        payload: dead.payload,
+        attempts: 0,
+        enqueuedAt: Date.now(),
+      };
+      await this.writeItem(item);
+      await this.storage.removeItem(`${DEAD_PREFIX}${id}`);
+      entries.push({ item, visibleAt: 0 });
+      this.notify();
+      return item;
+    });
+  }
+
+  /**
+   * Delete every dead-lettered item.
+   *
+   * @returns The number of items deleted.
+   */
+  async purgeDeadLetters(): Promise<number> {
+    return this.mutex.run('queue', async () => {
+      const keys = (await this.storage.getAllKeys()).filter((key) =>
+        key.startsWith(DEAD_PREFIX)
+      );
+      await this.storage.multiRemove(keys);
+      return keys.length;
+    });
+  }
+
+  /**
+   * Delete every pending and dead-lettered item.
+   */
+  async clear(): Promise<void> {
+    return this.mutex.run('queue', async () => {
+      await this.storage.clear();
+      this.entries = [];
+      this.notify();
+    });
+  }
+
+  private async load(): Promise<QueueEntry<T>[]> {
+    if (this.entries) return this.entries;
+
+    const keys = await this.storage.getAllKeys();
+    const itemKeys = keys.filter((key) => key.startsWith(ITEM_PREFIX)).sort();
+    const rows = await this.storage.multiGet(itemKeys);
+    const entries: QueueEntry<T>[] = [];
+    for (const [key, raw] of rows) {
+      const item = await this.decodeRow<QueueItem<T>>(key, raw);
+      if (item) entries.push({ item, visibleAt: 0 });
+    }
+
+    // Dead letters keep their ids, so they count towards the next id too
+    const lastId = keys
+      .map((key) => Number(key.slice(key.indexOf(':') + 1)))
+      .filter((seq) => Number.isInteger(seq))
+      .reduce((max, seq) => Math.max(max, seq), 0);
+    this.nextSeq = Math.max(this.nextSeq, lastId + 1);
+    this.entries = entries;
+    return entries;
+  }
+
+  /**
+   * Decode a stored row, quarantining it if it cannot be decoded.
+   *
+   * @returns The decoded row, or `null` if missing or quarantined.
+   */
+  private async decodeRow<R>(
+    key: string,
+    raw: Optional<string>
+  ): Promise<R | null> {
+    if (raw == null) return null;
+    try {
+      return this.codec.decode(raw, this.name) as R;
+    } catch (error) {
+      await this.storage.quarantine(key, error);
+      return null;
+    }
+  }
+
+  private async writeItem(item: QueueItem<T>): Promise<void> {
+    await this.storage.setItem(
+      `${ITEM_PREFIX}${item.id}`,
+      this.codec.encode(item)
+    );
+  }
+
+  private async deadLetter(entry: QueueEntry<T>): Promise<void> {
+    const dead: DeadLetter<T> = { ...entry.item, deadLetteredAt: Date.now() };
+    await this.storage.setItem(
+      `${DEAD_PREFIX}${dead.id}`,
+      this.codec.encode(dead)
+    );
+    await this.storage.removeItem(`${ITEM_PREFIX}${dead.id}`);
+    const entries = this.entries ?? [];
+    const index = entries.indexOf(entry);
+    if (index >= 0) entries.splice(index, 1);
+    this.notify();
+  }
+
+  private notify(): void {
+    const length = this.entries?.length ?? 0;
+    this.listeners.forEach((listener) => listener(length));
+  }
+}
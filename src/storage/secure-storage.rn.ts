@@ -0,0 +1,378 @@
+/**
+ * @fileoverview Credential storage in the iOS Keychain / Android Keystore.
+ *
+ * `RNSecureStorageService` implements `StorageService` over a
+ * `react-native-keychain`-shaped module, for auth tokens and other secrets
+ * that must not live in AsyncStorage. Each key is stored as its own
+ * generic-password entry, so entries can have their own accessibility level
+ * and biometric protection. When the module is missing, every operation
+ * throws `SecureStorageUnavailableError`; there is deliberately no fallback
+ * to unencrypted storage.
+ */
+
+import type { StorageService } from '@sudobility/di/interfaces';
+import { StorageType, type Optional } from '@sudobility/types';
+
+/**
+ * When a secure entry can be read.
+ *
+ * - `whenUnlocked`: while the device is unlocked.
+ * - `afterFirstUnlock`: after the first unlock since boot (readable in the background).
+ * - `*ThisDeviceOnly`: as above, but never restored to another device from a backup.
+ * - `whenPasscodeSetThisDeviceOnly`: only while a device passcode is set.
+ */
+export type SecureAccessible =
+  | 'whenUnlocked'
+  | 'afterFirstUnlock'
+  | 'whenUnlockedThisDeviceOnly'
+  | 'afterFirstUnlockThisDeviceOnly'
+  | 'whenPasscodeSetThisDeviceOnly';
+
+/**
+ * Biometric protection of an entry.
+ *
+ * - `any`: any enrolled biometry (or the device passcode, where supported).
+ * - `currentSet`: only the biometry enrolled when the entry was written;
+ *   enrolling a new finger or face invalidates the entry.
+ */
+export type SecureBiometrics = 'any' | 'currentSet';
+
+/**
+ * Prompt shown when reading a biometric-protected entry.
+ */
+export interface SecureAuthenticationPrompt {
+  title?: string;
+  subtitle?: string;
+  description?: string;
+  cancel?: string;
+}
+
+/**
+ * Options passed to the keychain module (a subset of `react-native-keychain`'s).
+ */
+export interface KeychainOptions {
+  service?: string;
+  accessible?: string;
+  accessControl?: string;
+  authenticationPrompt?: SecureAuthenticationPrompt;
+}
+
+/**
+ * Minimal keychain/keystore API used by `RNSecureStorageService`.
+ *
+ * Matches `react-native-keychain`, which is loaded automatically when
+ * installed. Inject another implementation with `setKeychainModule()`.
+ */
+export interface KeychainModuleLike {
+  setGenericPassword(
+    username: string,
+    password: string,
+    options?: KeychainOptions
+  ): Promise<unknown>;
+  getGenericPassword(
+    options?: KeychainOptions
+  ): Promise<false | { username: string; password: string }>;
+  resetGenericPassword(options?: KeychainOptions): Promise<unknown>;
+  getAllGenericPasswordServices(): Promise<string[]>;
+}
+
+/**
+ * Options for constructing an `RNSecureStorageService`.
+ */
+export interface RNSecureStorageOptions {
+  /**
+   * Prefix of the keychain service names used for entries, so several
+   * services (or apps sharing a keychain group) do not collide. Defaults to `'di_rn'`.
+   */
+  service?: string | undefined;
+  /** Default accessibility of new entries. Defaults to `'whenUnlockedThisDeviceOnly'`. */
+  accessible?: SecureAccessible | undefined;
+}
+
+/**
+ * Options for `RNSecureStorageService.setItem`.
+ */
+export interface SecureSetOptions {
+  /** Accessibility of this entry, overriding the service default. */
+  accessible?: SecureAccessible | undefined;
+  /** Require biometric authentication to read this entry. */
+  biometrics?: SecureBiometrics | undefined;
+}
+
+/**
+ * Options for `RNSecureStorageService.getItem`.
+ */
+export interface SecureGetOptions {
+  /** Prompt shown if the entry is biometric-protected. */
+  prompt?: SecureAuthenticationPrompt | undefined;
+}
+
+/**
+ * Error thrown when no keychain module is available.
+ */
+export class SecureStorageUnavailableError extends Error {
+  constructor() {
+    super(
+      'Secure storage is not available: install and link react-native-keychain, or call setKeychainModule()'
+    );
+    this.name = 'SecureStorageUnavailableError';
+  }
+}
+
+// Keychain constants, as defined by react-native-keychain
+const ACCESSIBLE: Record<SecureAccessible, string> = {
+  whenUnlocked: 'AccessibleWhenUnlocked',
+  afterFirstUnlock: 'AccessibleAfterFirstUnlock',
+  whenUnlockedThisDeviceOnly: 'AccessibleWhenUnlockedThisDeviceOnly',
+  afterFirstUnlockThisDeviceOnly: 'AccessibleAfterFirstUnlockThisDeviceOnly',
+  whenPasscodeSetThisDeviceOnly: 'AccessibleWhenPasscodeSetThisDeviceOnly',
+};
+
+const ACCESS_CONTROL: Record<SecureBiometrics, string> = {
+  any: 'BiometryAnyOrDevicePasscode',
+  currentSet: 'BiometryCurrentSet',
+};
+
+// Lazy load react-native-keychain to avoid crashes if native module is not linked
+let keychainModule: KeychainModuleLike | null = null;
+let keychainOverride: KeychainModuleLike | null = null;
+let keychainLoadFailed = false;
+
+/**
+ * Inject a mock or custom keychain module.
+ *
+ * @param module - The keychain API to use, or `null` to reset and use
+ *   `react-native-keychain`.
+ *
+ * @example
+ * ```ts
+ * // In tests:
+ * setKeychainModule(mockKeychain);
+ * ```
+ */
+export function setKeychainModule(module: KeychainModuleLike | null): void {
+  keychainOverride = module;
+  keychainLoadFailed = false;
+}
+
+/**
+ * Lazily load and return the keychain module.
+ *
+ * @returns The injected module, `react-native-keychain`, or `null` if neither is available.
+ */
+function getKeychain(): KeychainModuleLike | null {
+  if (keychainOverride) return keychainOverride;
+
+  if (!keychainModule && !keychainLoadFailed) {
+    try {
+      const mod: Record<string, unknown> = require('react-native-keychain');
+      keychainModule = (mod.default ?? mod) as KeychainModuleLike;
+    } catch (e) {
+      keychainLoadFailed = true;
+      console.warn('Keychain not available:', e);
+    }
+  }
+  return keychainModule;
+}
+
+/**
+ * Check whether a keychain module is available.
+ *
+ * @returns `true` if a module was injected or `react-native-keychain` loaded.
+ */
+export function isSecureStorageAvailable(): boolean {
+  return getKeychain() !== null;
+}
+
+/**
+ * React Native secure storage service for credentials.
+ *
+ * Implements `StorageService` on top of the platform keychain/keystore.
+ * Values are strings; serialize objects before storing them.
+ *
+ * @example
+ * ```ts
+ * const secure = new RNSecureStorageService();
+ * await secure.setItem('auth:refreshToken', token, { biometrics: 'currentSet' });
+ *
+ * const stored = await secure.getItem('auth:refreshToken', {
+ *   prompt: { title: 'Unlock your account' },
+ * });
+ * ```
+ */
+export class RNSecureStorageService implements StorageService {
+  private readonly service: string;
+  private readonly accessible: SecureAccessible;
+
+  /**
+   * Create a new RNSecureStorageService.
+   *
+   * @param options - Optional service name prefix and default accessibility.
+   */
+  constructor(options: RNSecureStorageOptions = {}) {
+    this.service = options.service ?? 'di_rn';
+    this.accessible = options.accessible ?? 'whenUnlockedThisDeviceOnly';
+  }
+
+  /**
+   * Retrieve a secret by key.
+   *
+   * Reading a biometric-protected entry shows the authentication prompt.
+   *
+   * @param key - The storage key.
+   * @param options - Optional prompt for biometric-protected entries.
+   * @returns The stored value, or `null` if not found.
+   * @throws SecureStorageUnavailableError if no keychain module is available.
+   * @throws Whatever the keychain module throws, e.g. when authentication is cancelled.
+   */
+  async getItem(
+    key: string,
+    options: SecureGetOptions = {}
+  ): Promise<Optional<string>> {
+    const keychain = this.requireKeychain();
+    const result = await keychain.getGenericPassword({
+      service: this.serviceFor(key),
+      ...(options.prompt ? { authenticationPrompt: options.prompt } : {}),
+    });
+    return result ? result.password : null;
+  }
+
+  /**
+   * Store a secret.
+   *
+   * @param key - The storage key.
+   * @param value - The secret to store.
+   * @param options - Optional accessibility and biometric protection.
+   * @throws SecureStorageUnavailableError if no keychain module is available.
+   * @throws Error if the keychain rejects the write.
+   */
+  async setItem(
+    key: string,
+    value: string,
+    options: SecureSetOptions = {}
+  ): Promise<void> {
+    const keychain = this.requireKeychain();
+    const result = await keychain.setGenericPassword(key, value, {
+      service: this.serviceFor(key),
+      accessible: ACCESSIBLE[options.accessible ?? this.accessible],
+      ...(options.biometrics
+        ? { accessControl: ACCESS_CONTROL[options.biometrics] }
+        : {}),
+    });
+    if (result === false) {
+      throw new Error(`Keychain rejected the write of "${key}"`);
+    }
+  }
+
+  /**
+   * Remove a secret.
+   *
+   * @param key - The storage key to remove.
+   * @throws SecureStorageUnavailableError if no keychain module is available.
+   */
+  async removeItem(key: string): Promise<void> {
+    const keychain = this.requireKeychain();
+    await keychain.resetGenericPassword({ service: this.serviceFor(key) });
+  }
+
+  /**
+   * Remove every secret stored by this service (entries of other services
+   * in the same keychain are kept).
+   *
+   * @throws SecureStorageUnavailableError if no keychain module is available.
+   */
+  async clear(): Promise<void> {
+    const keys = await this.getAllKeys();
+    for (const key of keys) await this.removeItem(key);
+  }
+
+  /**
+   * Get the keys of every secret stored by this service.
+   *
+   * @returns The keys, without the service prefix.
+   * @throws SecureStorageUnavailableError if no keychain module is available.
+   */
+  async getAllKeys(): Promise<string[]> {
+    const keychain = this.requireKeychain();
+    const prefix = this.serviceFor('');
+    return (await keychain.getAllGenericPasswordServices())
+      .filter((service) => service.startsWith(prefix))
+      .map((service) => service.slice(prefix.length));
+  }
+
+  /**
+   * Check if a keychain module is available.
+   *
+   * @returns `true` if secrets can be stored.
+   */
+  isAvailable(): boolean {
+    return isSecureStorageAvailable();
+  }
+
+  /**
+   * Get the storage type identifier.
+   *
+   * `StorageType` has no keychain member, so this reports the closest
+   * persistent device storage; use `getBackendType()` to tell the two apart.
+   *
+   * @returns `StorageType.ASYNC_STORAGE`.
+   */
+  getType(): StorageType {
+    return StorageType.ASYNC_STORAGE;
+  }
+
+  /**
+   * Get the identifier of the backend secrets are stored in.
+   *
+   * @returns `'secureStorage'`.
+   */
+  getBackendType(): string {
+    return 'secureStorage';
+  }
+
+  /** Keychain service name of a key. */
+  private serviceFor(key: string): string {
+    return `${this.service}:${key}`;
+  }
+
+  private requireKeychain(): KeychainModuleLike {
+    const keychain = getKeychain();
+    if (!keychain) throw new SecureStorageUnavailableError();
+    return keychain;
+  }
+}
+
+// Singleton management
+let secureStorageService: RNSecureStorageService | null = null;
+
+/**
+ * Get the secure storage service singleton, auto-creating one if not yet initialized.
+ *
+ * @returns The `RNSecureStorageService` singleton instance.
+ */
+export function getSecureStorageService(): RNSecureStorageService {
+  if (!secureStorageService) {
+    secureStorageService = new RNSecureStorageService();
+  }
+  return secureStorageService;
+}
+
+/**
+ * Initialize the secure storage service singleton, optionally injecting a custom instance.
+ *
+ * @param service - Optional custom `RNSecureStorageService` instance. If omitted, a new one is created.
+ * @returns The initialized `RNSecureStorageService` singleton.
+ */
+export function initializeSecureStorageService(
+  service?: RNSecureStorageService
+): RNSecureStorageService {
+  secureStorageService = service ?? new RNSecureStorageService();
+  return secureStorageService;
+}
+
+/**
+ * Reset the secure storage service singleton to `null`.
+ */
+export function resetSecureStorageService(): void {
+  secureStorageService = null;
+}
@@ -0,0 +1,319 @@
+/**
+ * @fileoverview Pluggable key/value backends for `RNStorage`.
+ *
+ * By default `RNStorage` reads and writes through AsyncStorage. Any object
+ * implementing `StorageBackend` can be passed as the `backend` option instead,
+ * so hot data can live in faster storage without changing call sites. The
+ * built-in adapters wrap modules injected by the app (an MMKV instance, an
+ * expo-sqlite database) rather than importing them, so none of those native
+ * packages are required dependencies.
+ */
+
+/**
+ * Type definition for the AsyncStorage static interface.
+ * Matches the public API of `@react-native-async-storage/async-storage`.
+ */
+export interface AsyncStorageStatic {
+  setItem(key: string, value: string): Promise<void>;
+  getItem(key: string): Promise<string | null>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+  getAllKeys(): Promise<readonly string[]>;
+  multiRemove(keys: string[]): Promise<void>;
+  // Batch APIs are optional: backends without them fall back to per-key calls
+  multiGet?(
+    keys: readonly string[]
+  ): Promise<readonly [string, string | null][]>;
+  multiSet?(keyValuePairs: [string, string][]): Promise<void>;
+  mergeItem?(key: string, value: string): Promise<void>;
+  multiMerge?(keyValuePairs: [string, string][]): Promise<void>;
+}
+
+/**
+ * Storage backend accepted by `RNStorage` through the `backend` option.
+ *
+ * Same shape as AsyncStorage, plus a `type` identifier reported by
+ * `RNStorageService.getType()`.
+ */
+export interface StorageBackend extends AsyncStorageStatic {
+  /** Backend identifier, e.g. `'memory'`, `'mmkv'` or `'sqlite'`. */
+  readonly type: string;
+}
+
+/**
+ * Volatile backend keeping values in a `Map`.
+ *
+ * Useful for tests, for data that must not outlive the process, and as a
+ * stand-in when no native storage is linked.
+ *
+ * @example
+ * ```ts
+ * const storage = new RNStorage({ backend: new MemoryStorageBackend() });
+ * ```
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly type = 'memory';
+  private entries = new Map<string, string>();
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.entries.get(key) ?? null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return [...this.entries.keys()];
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.entries.delete(key));
+  }
+
+  async multiGet(
+    keys: readonly string[]
+  ): Promise<readonly [string, string | null][]> {
+    return keys.map((key) => [key, this.entries.get(key) ?? null]);
+  }
+
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    keyValuePairs.forEach(([key, value]) => this.entries.set(key, value));
+  }
+}
+
+/**
+ * Synchronous key/value module with the shape of a `react-native-mmkv`
+ * `MMKV` instance.
+ */
+export interface MMKVLike {
+  set(key: string, value: string): void;
+  getString(key: string): string | undefined;
+  delete(key: string): void;
+  getAllKeys(): string[];
+  clearAll(): void;
+}
+
+/**
+ * Backend adapter over an injected MMKV-style synchronous store.
+ *
+ * @example
+ * ```ts
+ * import { MMKV } from 'react-native-mmkv';
+ *
+ * const storage = new RNStorage({
+ *   backend: new MMKVStorageBackend(new MMKV({ id: 'hot-data' })),
+ * });
+ * ```
+ */
+export class MMKVStorageBackend implements StorageBackend {
+  readonly type = 'mmkv';
+
+  /**
+   * Create a new MMKVStorageBackend.
+   *
+   * @param mmkv - The MMKV instance to read and write through.
+   */
+  constructor(private readonly mmkv: MMKVLike) {}
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.mmkv.set(key, value);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.mmkv.getString(key) ?? null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.mmkv.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.mmkv.clearAll();
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    return this.mmkv.getAllKeys();
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.mmkv.delete(key));
+  }
+
+  async multiGet(
+    keys: readonly string[]
+  ): Promise<readonly [string, string | null][]> {
+    return keys.map((key) => [key, this.mmkv.getString(key) ?? null]);
+  }
+
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    keyValuePairs.forEach(([key, value]) => this.mmkv.set(key, value));
+  }
+}
+
+/**
+ * Async database with the shape of an `expo-sqlite` `SQLiteDatabase`.
+ */
+export interface SQLiteDatabaseLike {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: string[]): Promise<unknown>;
+  getFirstAsync<T>(source: string, params: string[]): Promise<T | null>;
+  getAllAsync<T>(source: string, params: string[]): Promise<T[]>;
+  withTransactionAsync?(task: () => Promise<void>): Promise<void>;
+}
+
+/**
+ * Options for `SQLiteStorageBackend`.
+ */
+export interface SQLiteStorageBackendOptions {
+  /** Table holding the key/value pairs. Created on first use. Defaults to `'kv_store'`. */
+  tableName?: string;
+}
+
+// Stay well below SQLite's default limit of 999 bound parameters
+const SQLITE_MAX_PARAMS = 500;
+
+/**
+ * Backend adapter over an injected SQLite database.
+ *
+ * Stores every pair in a two-column table (`key`, `value`), created on
+ * first use. Batch writes run in a transaction when the database supports it.
+ *
+ * @example
+ * ```ts
+ * import * as SQLite from 'expo-sqlite';
+ *
+ * const db = await SQLite.openDatabaseAsync('app.db');
+ * const storage = new RNStorage({ backend: new SQLiteStorageBackend(db) });
+ * ```
+ */
+export class SQLiteStorageBackend implements StorageBackend {
+  readonly type = 'sqlite';
+  private readonly table: string;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Create a new SQLiteStorageBackend.
+   *
+   * @param db - The database to store values in.
+   * @param options - Optional table name.
+   * @throws Error if the table name is not a plain SQL identifier.
+   */
+  constructor(
+    private readonly db: SQLiteDatabaseLike,
+    options: SQLiteStorageBackendOptions = {}
+  ) {
+    const tableName = options.tableName ?? 'kv_store';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid SQLite table name: ${tableName}`);
+    }
+    this.table = tableName;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.init();
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO ${this.table} (key, value) VALUES (?, ?)`,
+      [key, value]
+    );
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    await this.init();
+    const row = await this.db.getFirstAsync<{ value: string }>(
+      `SELECT value FROM ${this.table} WHERE key = ?`,
+      [key]
+    );
+    return row?.value ?? null;
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.init();
+    await this.db.runAsync(`DELETE FROM ${this.table} WHERE key = ?`, [key]);
+  }
+
+  async clear(): Promise<void> {
+    await this.init();
+    await this.db.runAsync(`DELETE FROM ${this.table}`, []);
+  }
+
+  async getAllKeys(): Promise<readonly string[]> {
+    await this.init();
+    const rows = await this.db.getAllAsync<{ key: string }>(
+      `SELECT key FROM ${this.table}`,
+      []
+    );
+    return rows.map((row) => row.key);
+  }
+
+  async multiRemove(keys: string[]): Promise<void> {
+    await this.init();
+    for (let i = 0; i < keys.length; i += SQLITE_MAX_PARAMS) {
+      const batch = keys.slice(i, i + SQLITE_MAX_PARAMS);
+      await this.db.runAsync(
+        `DELETE FROM ${this.table} WHERE key IN (${placeholders(batch.length)})`,
+        batch
+      );
+    }
+  }
+
+  async multiGet(
+    keys: readonly string[]
+  ): Promise<readonly [string, string | null][]> {
+    await this.init();
+    const values = new Map<string, string>();
+    for (let i = 0; i < keys.length; i += SQLITE_MAX_PARAMS) {
+      const batch = keys.slice(i, i + SQLITE_MAX_PARAMS);
+      const rows = await this.db.getAllAsync<{ key: string; value: string }>(
+        `SELECT key, value FROM ${this.table} WHERE key IN (${placeholders(batch.length)})`,
+        batch
+      );
+      rows.forEach((row) => values.set(row.key, row.value));
+    }
+    return keys.map((key) => [key, values.get(key) ?? null]);
+  }
+
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    await this.init();
+    const write = async () => {
+      for (const [key, value] of keyValuePairs) {
+        await this.db.runAsync(
+          `INSERT OR REPLACE INTO ${this.table} (key, value) VALUES (?, ?)`,
+          [key, value]
+        );
+      }
+    };
+    if (this.db.withTransactionAsync) {
+      await this.db.withTransactionAsync(write);
+    } else {
+      await write();
+    }
+  }
+
+  /** Create the table once; retried on the next call if it fails. */
+  private init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.db
+        .execAsync(
+          `CREATE TABLE IF NOT EXISTS ${this.table} (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)`
+        )
+        .catch((e: unknown) => {
+          this.ready = null;
+          throw e;
+        });
+    }
+    return this.ready;
+  }
+}
+
+function placeholders(count: number): string {
+  return new Array<string>(count).fill('?').join(', ');
+}
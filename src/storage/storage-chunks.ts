@@ -0,0 +1,206 @@
+/**
+ * @fileoverview Splitting large values across several storage keys.
+ *
+ * Android's AsyncStorage cannot read rows larger than about 2MB. With
+ * chunking enabled, `RNStorage` stores such values as a small manifest under
+ * the original key plus numbered chunk keys next to it. Chunk keys carry a
+ * per-write id, so a rewrite never mixes chunks of two versions, and the
+ * manifest records a checksum of the whole value, so truncated or
+ * mismatched chunks are detected on read.
+ */
+
+import { fnv1a } from './checksum.js';
+
+/**
+ * Options for chunked storage of large values.
+ */
+export interface ChunkingOptions {
+  /**
+   * Values larger than this (UTF-8 bytes) are split into chunks of at most
+   * this size. Defaults to 1MB.
+   */
+  maxValueBytes?: number;
+}
+
+/** Default chunk size, well below Android's ~2MB row limit. */
+export const DEFAULT_MAX_VALUE_BYTES = 1024 * 1024;
+
+/** Marker separating a key from its chunk suffix. Keys containing it are hidden. */
+const CHUNK_KEY_MARKER = '#__chunk:';
+
+// Manifests are recognised by this prefix before being parsed
+const MANIFEST_PREFIX = '{"__chunked":1,';
+
+/**
+ * Manifest stored under the original key of a chunked value.
+ */
+export interface ChunkManifest {
+  __chunked: 1;
+  /** Per-write id, part of every chunk key. */
+  id: string;
+  /** Number of chunks. */
+  count: number;
+  /** Length of the whole value (UTF-16 code units). */
+  length: number;
+  /** Checksum of the whole value. */
+  checksum: string;
+}
+
+/**
+ * Error thrown when a chunked value is incomplete or fails its integrity check.
+ */
+export class StorageChunkError extends Error {
+  constructor(
+    message: string,
+    public key: string
+  ) {
+    super(message);
+    this.name = 'StorageChunkError';
+  }
+}
+
+/**
+ * Size of a string in bytes when encoded as UTF-8, which is how native
+ * storage backends account for it.
+ */
+export function utf8ByteLength(text: string): number {
+  let bytes = 0;
+  for (const char of text) bytes += codePointBytes(char);
+  return bytes;
+}
+
+function codePointBytes(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Check whether a stored key is a chunk of another key's value.
+ */
+export function isChunkKey(key: string): boolean {
+  return key.includes(CHUNK_KEY_MARKER);
+}
+
+/**
+ * Check whether a stored key is a chunk of the value stored under `fullKey`.
+ */
+export function isChunkKeyOf(key: string, fullKey: string): boolean {
+  return key.startsWith(fullKey + CHUNK_KEY_MARKER);
+}
+
+/**
+ * Parse a stored string as a chunk manifest.
+ *
+ * @returns The manifest, or `null` if the string is an ordinary value.
+ */
+export function parseChunkManifest(raw: string): ChunkManifest | null {
+  if (!raw.startsWith(MANIFEST_PREFIX)) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<ChunkManifest>;
+    if (
+      typeof parsed.id === 'string' &&
+      typeof parsed.count === 'number' &&
+      typeof parsed.length === 'number' &&
+      typeof parsed.checksum === 'string'
+    ) {
+      return parsed as ChunkManifest;
+    }
+  } catch {
+    // Not a manifest after all
+  }
+  return null;
+}
+
+/**
+ * List the chunk keys of a chunked value.
+ *
+ * @param fullKey - The (prefixed) key holding the manifest.
+ * @param manifest - The value's manifest.
+ */
+export function getChunkKeys(
+  fullKey: string,
+  manifest: ChunkManifest
+): string[] {
+  return Array.from(
+    { length: manifest.count },
+    (_, i) => `${fullKey}${CHUNK_KEY_MARKER}${manifest.id}:${i}`
+  );
+}
+
+/**
+ * Split a value into chunks if it exceeds the size limit.
+ *
+ * @param fullKey - The (prefixed) key being written.
+ * @param value - The value to store.
+ * @param maxBytes - Largest value (UTF-8 bytes) stored in a single row.
+ * @returns The rows to write (chunks first, manifest last), or `null` if the
+ *   value fits in one row.
+ */
+export function splitIntoChunks(
+  fullKey: string,
+  value: string,
+  maxBytes: number
+): [string, string][] | null {
+  if (value.length * 3 <= maxBytes || utf8ByteLength(value) <= maxBytes) {
+    return null;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  // Iterate by code point so surrogate pairs are never split
+  for (const char of value) {
+    const bytes = codePointBytes(char);
+    if (currentBytes + bytes > maxBytes) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  if (current) chunks.push(current);
+
+  const manifest: ChunkManifest = {
+    __chunked: 1,
+    id: Date.now().toString(36) + Math.random().toString(36).slice(2, 8),
+    count: chunks.length,
+    length: value.length,
+    checksum: fnv1a(value),
+  };
+  const keys = getChunkKeys(fullKey, manifest);
+  return [
+    ...chunks.map((chunk, i): [string, string] => [keys[i] ?? '', chunk]),
+    [fullKey, JSON.stringify(manifest)],
+  ];
+}
+
+/**
+ * Reassemble a chunked value and verify it against its manifest.
+ *
+ * @param key - The key (for error messages).
+ * @param manifest - The value's manifest.
+ * @param chunks - The chunk values, in order (`null` for missing chunks).
+ * @returns The original value.
+ * @throws StorageChunkError if a chunk is missing or the checksum does not match.
+ */
+export function joinChunks(
+  key: string,
+  manifest: ChunkManifest,
+  chunks: (string | null | undefined)[]
+): string {
+  if (chunks.some((chunk) => chunk == null)) {
+    throw new StorageChunkError(
+      `Chunked value for "${key}" is incomplete`,
+      key
+    );
+  }
+  const value = chunks.join('');
+  if (value.length !== manifest.length || fnv1a(value) !== manifest.checksum) {
+    throw new StorageChunkError(
+      `Chunked value for "${key}" failed its integrity check`,
+      key
+    );
+  }
+  return value;
+}
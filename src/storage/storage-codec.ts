@@ -0,0 +1,397 @@
+/**
+ * @fileoverview Codecs converting values to and from stored strings.
+ *
+ * `richCodec` is the default codec of `RNSerializedStorageService`. Values
+ * that plain JSON can represent are stored as plain JSON, exactly as
+ * before. Values containing `Date`, `Map`, `Set`, `BigInt`, typed arrays,
+ * `undefined`, non-finite numbers or types registered with
+ * `registerStorageType()` are stored as tagged JSON inside a
+ * `{ "$rich": 1, "v": ... }` envelope and revived on read. Strings without
+ * the envelope are read as plain JSON, so existing data stays readable.
+ */
+
+import {
+  validateStoredValue,
+  type StorageValidator,
+} from './storage-validation.js';
+
+/**
+ * Converts a value to and from its stored string.
+ *
+ * `decode` throws if the stored string cannot be decoded, a
+ * `StorageTypeError` if it uses a type this build does not know, or a
+ * `StorageValidationError` if the decoded value is not a valid `T`.
+ */
+export interface StorageCodec<T> {
+  encode(value: T): string;
+  decode(raw: string, key: string): T;
+}
+
+/**
+ * Error thrown when a stored value uses a type tag or custom type that is
+ * not known, e.g. because `registerStorageType()` has not run yet. The
+ * stored data may be intact, so it is not treated as corruption.
+ */
+export class StorageTypeError extends Error {
+  constructor(
+    message: string,
+    public key: string
+  ) {
+    super(message);
+    this.name = 'StorageTypeError';
+  }
+}
+
+/**
+ * Codec storing strings as they are.
+ */
+export const stringCodec: StorageCodec<string> = {
+  encode: (value) => value,
+  decode: (raw) => raw,
+};
+
+/**
+ * Codec storing values as JSON, optionally validating them on read.
+ *
+ * @typeParam T - The type of the stored value.
+ * @param validator - Optional type guard or zod-style schema run on decode.
+ * @returns A JSON codec.
+ *
+ * @example
+ * ```ts
+ * const codec = jsonCodec<Settings>(isSettings);
+ * ```
+ */
+export function jsonCodec<T>(validator?: StorageValidator<T>): StorageCodec<T> {
+  return {
+    encode: (value) => JSON.stringify(value),
+    decode: (raw, key) => {
+      const parsed: unknown = JSON.parse(raw);
+      return validator
+        ? validateStoredValue(key, validator, parsed)
+        : (parsed as T);
+    },
+  };
+}
+
+/**
+ * How a custom type is stored and revived by `richCodec`.
+ */
+export interface StorageTypeHandler<T> {
+  /** Recognise values of the type (e.g. `value instanceof Money`). */
+  is(value: unknown): value is T;
+  /** Convert a value to data `richCodec` can store (it may contain rich values). */
+  serialize(value: T): unknown;
+  /** Rebuild a value from the data returned by `serialize`. */
+  revive(data: unknown): T;
+}
+
+// Custom types by name, checked in registration order
+const customTypes = new Map<string, StorageTypeHandler<unknown>>();
+
+/**
+ * Register a custom type so `richCodec` stores and revives it.
+ *
+ * The name is stored with each value, so keep it stable across releases.
+ *
+ * @typeParam T - The custom type.
+ * @param name - Stable name identifying the type in stored data.
+ * @param handler - Recognises, serializes and revives values of the type.
+ * @throws Error if a type with the same name is already registered.
+ *
+ * @example
+ * ```ts
+ * registerStorageType('Money', {
+ *   is: (value): value is Money => value instanceof Money,
+ *   serialize: (money) => [money.amount, money.currency],
+ *   revive: (data) => new Money(...(data as [bigint, string])),
+ * });
+ * ```
+ */
+export function registerStorageType<T>(
+  name: string,
+  handler: StorageTypeHandler<T>
+): void {
+  if (customTypes.has(name)) {
+    throw new Error(`Storage type "${name}" is already registered`);
+  }
+  customTypes.set(name, handler as StorageTypeHandler<unknown>);
+}
+
+/**
+ * Remove all registered custom types.
+ *
+ * @example
+ * ```ts
+ * resetStorageTypes(); // for testing teardown
+ * ```
+ */
+export function resetStorageTypes(): void {
+  customTypes.clear();
+}
+
+// Tag key of encoded values; plain objects using it are escaped
+const TAG = '$t';
+const ENVELOPE_KEY = '$rich';
+
+type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
+
+const typedArrays: Record<
+  string,
+  new (values: ArrayLike<never>) => TypedArray
+> = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+/**
+ * Encoder state: whether any value needed a tag, and the objects being
+ * encoded (to reject cycles).
+ */
+interface EncodeState {
+  rich: boolean;
+  ancestors: Set<object>;
+}
+
+function tagged(state: EncodeState, type: string, v?: unknown): unknown {
+  state.rich = true;
+  return v === undefined ? { [TAG]: type } : { [TAG]: type, v };
+}
+
+function encodeValue(value: unknown, state: EncodeState): unknown {
+  switch (typeof value) {
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return tagged(state, 'undefined');
+    case 'bigint':
+      return tagged(state, 'BigInt', value.toString());
+    case 'number':
+      return Number.isFinite(value)
+        ? value
+        : tagged(state, 'Number', String(value));
+    case 'string':
+    case 'boolean':
+      return value;
+  }
+  if (value === null) return null;
+
+  const object = value as object;
+  if (state.ancestors.has(object)) {
+    throw new TypeError('Cannot store a circular structure');
+  }
+  state.ancestors.add(object);
+  try {
+    return encodeObject(object, state);
+  } finally {
+    state.ancestors.delete(object);
+  }
+}
+
+function encodeObject(object: object, state: EncodeState): unknown {
+  for (const [name, handler] of customTypes) {
+    if (handler.is(object)) {
+      return tagged(state, 'Custom', [
+        name,
+        encodeValue(handler.serialize(object), state),
+      ]);
+    }
+  }
+
+  if (object instanceof Date) {
+    const time = object.getTime();
+    return tagged(
+      state,
+      'Date',
+      Number.isNaN(time) ? null : object.toISOString()
+    );
+  }
+  if (object instanceof Map) {
+    return tagged(
+      state,
+      'Map',
+      [...object].map(([k, v]) => [
+        encodeValue(k, state),
+        encodeValue(v, state),
+      ])
+    );
+  }
+  if (object instanceof Set) {
+    return tagged(
+      state,
+      'Set',
+      [...object].map((item) => encodeValue(item, state))
+    );
+  }
+  if (ArrayBuffer.isView(object)) {
+    // instanceof rather than the constructor name, so subclasses are stored
+    // as their base type
+    const type = Object.entries(typedArrays).find(
+      ([, TypedArrayClass]) => object instanceof TypedArrayClass
+    )?.[0];
+    if (type) {
+      return tagged(
+        state,
+        type,
+        Array.from(object as TypedArray as ArrayLike<number | bigint>, (n) =>
+          typeof n === 'bigint' ? n.toString() : n
+        )
+      );
+    }
+  }
+  if (object instanceof ArrayBuffer) {
+    return tagged(state, 'ArrayBuffer', Array.from(new Uint8Array(object)));
+  }
+  if (Array.isArray(object)) {
+    return object.map((item) => encodeValue(item, state));
+  }
+
+  const toJSON = (object as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === 'function') {
+    return encodeValue(toJSON.call(object), state);
+  }
+
+  const encoded: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(object))
+    encoded[k] = encodeValue(v, state);
+  // Escape plain objects that look like tagged values
+  return TAG in encoded ? { [TAG]: 'Object', v: encoded } : encoded;
+}
+
+function decodeValue(value: unknown, key: string): unknown {
+  if (typeof value !== 'object' || value === null) return value;
+  if (Array.isArray(value)) return value.map((item) => decodeValue(item, key));
+
+  const record = value as Record<string, unknown>;
+  if (!(TAG in record)) {
+    const decoded: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(record))
+      decoded[k] = decodeValue(v, key);
+    return decoded;
+  }
+
+  const type = record[TAG];
+  const v = record.v;
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'BigInt':
+      return BigInt(String(v));
+    case 'Number':
+      return Number(v);
+    case 'Date':
+      return new Date(String(v));
+    case 'Map':
+      return new Map(
+        asArray(v, key).map((entry) => {
+          const [k, item] = asArray(entry, key);
+          return [decodeValue(k, key), decodeValue(item, key)];
+        })
+      );
+    case 'Set':
+      return new Set(asArray(v, key).map((item) => decodeValue(item, key)));
+    case 'ArrayBuffer':
+      return new Uint8Array(asArray(v, key) as number[]).buffer;
+    case 'Object': {
+      const decoded: Record<string, unknown> = {};
+      const entries = Object.entries((v ?? {}) as Record<string, unknown>);
+      for (const [k, item] of entries) decoded[k] = decodeValue(item, key);
+      return decoded;
+    }
+    case 'Custom': {
+      const [name, data] = asArray(v, key);
+      const handler = customTypes.get(String(name));
+      if (!handler) {
+        throw new StorageTypeError(
+          `Stored value for "${key}" uses unregistered type "${String(name)}"`,
+          key
+        );
+      }
+      return handler.revive(decodeValue(data, key));
+    }
+  }
+
+  const name = String(type);
+  const TypedArrayClass = Object.prototype.hasOwnProperty.call(
+    typedArrays,
+    name
+  )
+    ? typedArrays[name]
+    : undefined;
+  if (!TypedArrayClass) {
+    throw new StorageTypeError(
+      `Stored value for "${key}" has unknown type tag "${name}"`,
+      key
+    );
+  }
+  const items = asArray(v, key);
+  const values = name.startsWith('Big')
+    ? items.map((n) => BigInt(String(n)))
+    : items;
+  return new TypedArrayClass(values as unknown as ArrayLike<never>);
+}
+
+function asArray(value: unknown, key: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Stored value for "${key}" is malformed`);
+  }
+  return value;
+}
+
+/**
+ * Codec round-tripping `Date`, `Map`, `Set`, `BigInt`, typed arrays,
+ * `ArrayBuffer`, `undefined`, non-finite numbers and registered custom
+ * types. Default codec of `RNSerializedStorageService`.
+ *
+ * Values plain JSON can represent are encoded as plain JSON, and plain JSON
+ * is decoded as is.
+ *
+ * @example
+ * ```ts
+ * const raw = richCodec.encode({ at: new Date(), tags: new Set(['a']) });
+ * const value = richCodec.decode(raw, 'key'); // Date and Set revived
+ * ```
+ */
+export const richCodec: StorageCodec<unknown> = {
+  encode: (value) => {
+    const state: EncodeState = { rich: false, ancestors: new Set() };
+    const encoded = encodeValue(value, state);
+    const looksWrapped =
+      typeof value === 'object' && value !== null && ENVELOPE_KEY in value;
+    // Plain JSON stays plain JSON, readable by older releases
+    if (!state.rich && !looksWrapped) return JSON.stringify(value);
+    return JSON.stringify({ [ENVELOPE_KEY]: 1, v: encoded });
+  },
+  decode: (raw, key) => {
+    const parsed: unknown = JSON.parse(raw);
+    if (
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      (parsed as Record<string, unknown>)[ENVELOPE_KEY] === 1 &&
+      'v' in parsed
+    ) {
+      return decodeValue((parsed as { v: unknown }).v, key);
+    }
+    return parsed;
+  },
+};
@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Encryption at rest for persisted storage values.
+ *
+ * Defines the pluggable `StorageCipher` interface used by `AdvancedRNStorage`
+ * and `RNSerializedStorageService`, plus an AES-GCM implementation that
+ * delegates the actual cryptography to an injected provider (e.g. a
+ * react-native-quick-crypto or WebCrypto binding). Every sealed value is
+ * tagged with the key version it was encrypted with so keys can be rotated
+ * without losing access to older data.
+ */
+
+/**
+ * Cipher used to seal values before they are written to storage.
+ *
+ * Implementations must be able to decrypt any key version they have ever
+ * encrypted with, and encrypt new values with `keyVersion`.
+ */
+export interface StorageCipher {
+  /** Key version used for new writes. Stored alongside each sealed value. */
+  readonly keyVersion: number;
+  /**
+   * Encrypt a plaintext string with the current key version.
+   *
+   * @param plaintext - The value to seal.
+   * @returns The ciphertext as a string safe to store in AsyncStorage.
+   */
+  encrypt(plaintext: string): Promise<string>;
+  /**
+   * Decrypt a value sealed with the given key version.
+   *
+   * @param ciphertext - The sealed value.
+   * @param keyVersion - The key version recorded when the value was sealed.
+   * @returns The original plaintext.
+   */
+  decrypt(ciphertext: string, keyVersion: number): Promise<string>;
+}
+
+/**
+ * Low-level AES-GCM primitives injected into `AesGcmStorageCipher`.
+ *
+ * Keeps this package free of a hard dependency on a native crypto module.
+ */
+export interface AesGcmCryptoProvider {
+  /** Return `length` cryptographically secure random bytes. */
+  getRandomBytes(length: number): Uint8Array;
+  /** AES-GCM encrypt `plaintext`; the result includes the auth tag. */
+  encrypt(
+    key: Uint8Array,
+    iv: Uint8Array,
+    plaintext: Uint8Array
+  ): Promise<Uint8Array>;
+  /** AES-GCM decrypt `ciphertext` (with auth tag); rejects if tampered. */
+  decrypt(
+    key: Uint8Array,
+    iv: Uint8Array,
+    ciphertext: Uint8Array
+  ): Promise<Uint8Array>;
+}
+
+/**
+ * Options for constructing an `AesGcmStorageCipher`.
+ */
+export interface AesGcmStorageCipherOptions {
+  /** Crypto provider performing the AES-GCM operations. */
+  provider: AesGcmCryptoProvider;
+  /** Key ring: every key version that may still appear in storage. */
+  keys: Record<number, Uint8Array>;
+  /** Key version used for new writes. Must exist in `keys`. */
+  currentKeyVersion: number;
+}
+
+/**
+ * Error thrown when a value cannot be sealed or opened.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await secureStorage.getItem('token');
+ * } catch (err) {
+ *   if (err instanceof StorageEncryptionError) {
+ *     // key missing or data tampered with
+ *   }
+ * }
+ * ```
+ */
+export class StorageEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageEncryptionError';
+  }
+}
+
+/** Length of the AES-GCM initialization vector in bytes. */
+const IV_LENGTH = 12;
+
+/**
+ * AES-GCM `StorageCipher` with key rotation support.
+ *
+ * Each value is sealed with a fresh random IV and stored as
+ * `base64(iv).base64(ciphertext)`. Old key versions stay in the key ring so
+ * existing values remain readable after `currentKeyVersion` is bumped.
+ *
+ * @example
+ * ```ts
+ * const cipher = new AesGcmStorageCipher({
+ *   provider: quickCryptoProvider,
+ *   keys: { 1: oldKey, 2: newKey },
+ *   currentKeyVersion: 2,
+ * });
+ * const storage = new AdvancedRNStorage({ cipher });
+ * await storage.setItem('token', 'secret'); // sealed with key 2
+ * await storage.reencryptAll(); // re-seal values still on key 1
+ * ```
+ */
+export class AesGcmStorageCipher implements StorageCipher {
+  readonly keyVersion: number;
+  private provider: AesGcmCryptoProvider;
+  private keys: Record<number, Uint8Array>;
+
+  /**
+   * Create a new AesGcmStorageCipher.
+   *
+   * @param options - Provider, key ring and current key version.
+   * @throws StorageEncryptionError if the current key version is not in the key ring.
+   */
+  constructor(options: AesGcmStorageCipherOptions) {
+    if (!options.keys[options.currentKeyVersion]) {
+      throw new StorageEncryptionError(
+        `No key for current key version ${options.currentKeyVersion}`
+      );
+    }
+    this.provider = options.provider;
+    this.keys = options.keys;
+    this.keyVersion = options.currentKeyVersion;
+  }
+
+  /**
+   * Encrypt a value with the current key and a fresh IV.
+   *
+   * @param plaintext - The value to seal.
+   * @returns The sealed value as `base64(iv).base64(ciphertext)`.
+   */
+  async encrypt(plaintext: string): Promise<string> {
+    const iv = this.provider.getRandomBytes(IV_LENGTH);
+    const ciphertext = await this.provider.encrypt(
+      this.getKey(this.keyVersion),
+      iv,
+      encodeUtf8(plaintext)
+    );
+    return `${encodeBase64(iv)}.${encodeBase64(ciphertext)}`;
+  }
+
+  /**
+   * Decrypt a value sealed with the given key version.
+   *
+   * @param ciphertext - The sealed value produced by `encrypt`.
+   * @param keyVersion - The key version the value was sealed with.
+   * @returns The original plaintext.
+   * @throws StorageEncryptionError if the key is unknown or the value is malformed.
+   */
+  async decrypt(ciphertext: string, keyVersion: number): Promise<string> {
+    const [iv, data] = ciphertext.split('.');
+    if (!iv || !data) {
+      throw new StorageEncryptionError('Malformed ciphertext');
+    }
+    const plaintext = await this.provider.decrypt(
+      this.getKey(keyVersion),
+      decodeBase64(iv),
+      decodeBase64(data)
+    );
+    return decodeUtf8(plaintext);
+  }
+
+  private getKey(keyVersion: number): Uint8Array {
+    const key = this.keys[keyVersion];
+    if (!key) {
+      throw new StorageEncryptionError(`Unknown key version ${keyVersion}`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Envelope written by `RNSerializedStorageService` for encrypted objects.
+ */
+export interface EncryptedPayload {
+  /** Key version the data was sealed with. */
+  __enc: number;
+  /** The sealed serialized object. */
+  data: string;
+}
+
+/**
+ * Check whether a parsed value is an `EncryptedPayload` envelope.
+ *
+ * @param value - A parsed JSON value.
+ * @returns `true` if the value is an encrypted envelope.
+ */
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.__enc === 'number' && typeof candidate.data === 'string'
+  );
+}
+
+/**
+ * Decrypt a sealed value, wrapping provider failures in `StorageEncryptionError`.
+ *
+ * @param cipher - The cipher to decrypt with, or `undefined` if none is configured.
+ * @param ciphertext - The sealed value.
+ * @param keyVersion - The key version recorded with the value.
+ * @param key - The storage key (for error messages).
+ * @returns The decrypted plaintext.
+ * @throws StorageEncryptionError if no cipher is configured or decryption fails.
+ */
+export async function openSealedValue(
+  cipher: StorageCipher | undefined,
+  ciphertext: string,
+  keyVersion: number,
+  key: string
+): Promise<string> {
+  if (!cipher) {
+    throw new StorageEncryptionError(
+      `Value for "${key}" is encrypted but no cipher is configured`
+    );
+  }
+  try {
+    return await cipher.decrypt(ciphertext, keyVersion);
+  } catch (e) {
+    if (e instanceof StorageEncryptionError) throw e;
+    throw new StorageEncryptionError(
+      `Failed to decrypt "${key}": ${e instanceof Error ? e.message : String(e)}`
+    );
+  }
+}
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeBase64(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i] ?? 0;
+    const b1 = bytes[i + 1] ?? 0;
+    const b2 = bytes[i + 2] ?? 0;
+    const triple = (b0 << 16) | (b1 << 8) | b2;
+    result += BASE64_ALPHABET[(triple >> 18) & 63];
+    result += BASE64_ALPHABET[(triple >> 12) & 63];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[(triple >> 6) & 63] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[triple & 63] : '=';
+  }
+  return result;
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/=+$/, '');
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const index = BASE64_ALPHABET.indexOf(char);
+    if (index < 0) throw new StorageEncryptionError('Malformed ciphertext');
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const b0 = bytes[i] ?? 0;
+    let code: number;
+    let length: number;
+    if (b0 < 0x80) {
+      code = b0;
+      length = 1;
+    } else if (b0 < 0xe0) {
+      code = b0 & 0x1f;
+      length = 2;
+    } else if (b0 < 0xf0) {
+      code = b0 & 0x0f;
+      length = 3;
+    } else {
+      code = b0 & 0x07;
+      length = 4;
+    }
+    for (let j = 1; j < length; j++) {
+      code = (code << 6) | ((bytes[i + j] ?? 0) & 63);
+    }
+    result += String.fromCodePoint(code);
+    i += length;
+  }
+  return result;
+}
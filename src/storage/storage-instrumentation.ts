@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Opt-in timing of storage operations.
+ *
+ * Storages created with the `instrumentation` option time each operation,
+ * log operations slower than a threshold through the `Storage` logger, and
+ * feed a process-wide aggregate that `getStorageMetrics()` reports as
+ * p50/p95 per operation.
+ */
+
+import { getLogger } from '../logging/logging.rn.js';
+import { utf8ByteLength } from './storage-chunks.js';
+
+/**
+ * Options for the `instrumentation` storage option.
+ */
+export interface StorageInstrumentationOptions {
+  /**
+   * Operations taking at least this long (ms) are logged as warnings.
+   * Defaults to 100. Use `Infinity` to only collect metrics.
+   */
+  slowThresholdMs?: number | undefined;
+}
+
+/**
+ * Aggregated timings of one operation, as reported by `getStorageMetrics()`.
+ */
+export interface StorageOperationMetrics {
+  /** The operation, qualified by class (e.g. `RNStorage.getItem`). */
+  operation: string;
+  /** Number of calls recorded since the last reset. */
+  count: number;
+  /** Calls that reached their storage's slow threshold. */
+  slowCount: number;
+  /** Median duration (ms) over the retained samples. */
+  p50: number;
+  /** 95th percentile duration (ms) over the retained samples. */
+  p95: number;
+  /** Longest duration (ms) recorded. */
+  max: number;
+}
+
+const DEFAULT_SLOW_THRESHOLD_MS = 100;
+// Most recent durations kept per operation for percentiles
+const MAX_SAMPLES = 500;
+
+interface OperationStats {
+  count: number;
+  slowCount: number;
+  max: number;
+  samples: number[];
+  // Ring buffer write position once `samples` is full
+  next: number;
+}
+
+const stats = new Map<string, OperationStats>();
+
+function record(operation: string, durationMs: number, slow: boolean): void {
+  let entry = stats.get(operation);
+  if (!entry) {
+    entry = { count: 0, slowCount: 0, max: 0, samples: [], next: 0 };
+    stats.set(operation, entry);
+  }
+  entry.count++;
+  if (slow) entry.slowCount++;
+  entry.max = Math.max(entry.max, durationMs);
+  if (entry.samples.length < MAX_SAMPLES) {
+    entry.samples.push(durationMs);
+  } else {
+    entry.samples[entry.next] = durationMs;
+    entry.next = (entry.next + 1) % MAX_SAMPLES;
+  }
+}
+
+/** Monotonic time in ms, or wall-clock time where `performance` is missing. */
+function now(): number {
+  return typeof performance !== 'undefined' &&
+    typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+}
+
+/** Nearest-rank percentile of ascending `sorted`. */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)] ?? 0;
+}
+
+/**
+ * Size in bytes of the strings an operation read or wrote: plain values,
+ * arrays of values and `[key, value]` pairs.
+ *
+ * @returns The size, or `null` if the payload holds no strings.
+ */
+function measurePayload(payload: unknown): number | null {
+  if (typeof payload === 'string') return utf8ByteLength(payload);
+  if (!Array.isArray(payload)) return null;
+  let total: number | null = null;
+  for (const element of payload) {
+    const size = Array.isArray(element)
+      ? measurePayload(element[1])
+      : measurePayload(element);
+    if (size !== null) total = (total ?? 0) + size;
+  }
+  return total;
+}
+
+/**
+ * Normalize the `instrumentation` option.
+ *
+ * @returns The options to instrument with, or `undefined` when disabled.
+ */
+export function resolveInstrumentation(
+  option: StorageInstrumentationOptions | boolean | undefined
+): StorageInstrumentationOptions | undefined {
+  if (!option) return undefined;
+  return option === true ? {} : option;
+}
+
+/**
+ * Replace methods of a storage instance with timed wrappers.
+ *
+ * The first argument of each method is reported as the key when it is a
+ * string, an array of keys or an array of `[key, value]` pairs. The payload
+ * size is taken from the written value or, failing that, the result.
+ *
+ * @param target - The storage instance to instrument.
+ * @param className - Prefix for the operation names (e.g. `RNStorage`).
+ * @param methods - Names of the async methods to time.
+ * @param options - The instance's instrumentation options.
+ * @param measure - Custom payload sizing, e.g. for objects that are
+ *   encoded before being stored. Called after timing ends.
+ */
+export function instrumentStorage<T extends object>(
+  target: T,
+  className: string,
+  methods: readonly (keyof T & string)[],
+  options: StorageInstrumentationOptions,
+  measure: (payload: unknown) => number | null = measurePayload
+): void {
+  const threshold = options.slowThresholdMs ?? DEFAULT_SLOW_THRESHOLD_MS;
+  const methodTable = target as unknown as Record<
+    string,
+    (...args: unknown[]) => Promise<unknown>
+  >;
+
+  for (const method of methods) {
+    const original = methodTable[method];
+    if (typeof original !== 'function') continue;
+    const operation = `${className}.${method}`;
+
+    methodTable[method] = async function (this: unknown, ...args: unknown[]) {
+      const start = now();
+      let result: unknown;
+      try {
+        result = await original.apply(this, args);
+        return result;
+      } finally {
+        const durationMs = now() - start;
+        const slow = durationMs >= threshold;
+        record(operation, durationMs, slow);
+        if (slow) {
+          const [keyArg, ...rest] = args;
+          const key = Array.isArray(keyArg)
+            ? keyArg
+                .map((entry) => (Array.isArray(entry) ? entry[0] : entry))
+                .join(', ')
+            : typeof keyArg === 'string'
+              ? keyArg
+              : '-';
+          // Written value, else the value read, else multiSet-style pairs
+          const pairs = Array.isArray(keyArg) && Array.isArray(keyArg[0]);
+          const bytes =
+            (rest.length > 0 ? measure(rest[0]) : null) ??
+            measure(result) ??
+            (pairs ? measure(keyArg) : null);
+          getLogger()
+            .child('Storage')
+            .warn(
+              `Slow ${operation} (${Math.round(durationMs)}ms) key=${key} bytes=${
+                bytes ?? '-'
+              }`
+            );
+        }
+      }
+    };
+  }
+}
+
+/**
+ * Report aggregated timings of instrumented storage operations.
+ *
+ * @returns One entry per operation, sorted by operation name.
+ *
+ * @example
+ * ```ts
+ * for (const m of getStorageMetrics()) {
+ *   console.log(`${m.operation}: p50 ${m.p50}ms, p95 ${m.p95}ms (${m.count} calls)`);
+ * }
+ * ```
+ */
+export function getStorageMetrics(): StorageOperationMetrics[] {
+  return [...stats.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([operation, entry]) => {
+      const sorted = [...entry.samples].sort((a, b) => a - b);
+      return {
+        operation,
+        count: entry.count,
+        slowCount: entry.slowCount,
+        p50: percentile(sorted, 50),
+        p95: percentile(sorted, 95),
+        max: entry.max,
+      };
+    });
+}
+
+/**
+ * Discard all recorded storage timings.
+ *
+ * @example
+ * ```ts
+ * resetStorageMetrics(); // for testing teardown
+ * ```
+ */
+export function resetStorageMetrics(): void {
+  stats.clear();
+}
@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Typed storage keys declared in one place.
+ *
+ * `defineStorageKey()` bundles a key's name, codec, default value, TTL and
+ * scope into a handle with typed `get`/`set`/`remove`/`subscribe` methods,
+ * so call sites no longer repeat parse logic and defaults. Every declared
+ * key is recorded in a registry that diagnostics and snapshot tooling can
+ * enumerate.
+ */
+
+import { AdvancedRNStorage, advancedRNStorage } from './storage.rn.js';
+import { jsonCodec, type StorageCodec } from './storage-codec.js';
+import {
+  StorageValidationError,
+  type StorageReadResult,
+} from './storage-validation.js';
+
+/**
+ * Declaration passed to `defineStorageKey()`.
+ */
+export interface StorageKeyDefinition<T> {
+  /** The key name, relative to `scope`. */
+  name: string;
+  /** How values are stored. Defaults to `jsonCodec()`. */
+  codec?: StorageCodec<T> | undefined;
+  /** Returned by `get()` when nothing (usable) is stored. */
+  defaultValue: T;
+  /** TTL (ms) applied on every `set()`. Defaults to no expiry. */
+  ttl?: number | undefined;
+  /** Namespace the key lives in (e.g. `'settings'` for `settings:theme`). */
+  scope?: string | undefined;
+  /** Backing storage. Defaults to the `advancedRNStorage` singleton. */
+  storage?: AdvancedRNStorage | undefined;
+}
+
+/**
+ * Registry entry describing a declared key.
+ */
+export interface StorageKeyInfo {
+  /** The key name, relative to `scope`. */
+  name: string;
+  /** The key's namespace, if any. */
+  scope: string | undefined;
+  /** The key as stored in its backing storage (`scope:name`). */
+  key: string;
+  /** TTL (ms) applied on `set()`, if any. */
+  ttl: number | undefined;
+}
+
+/**
+ * Typed handle returned by `defineStorageKey()`.
+ */
+export interface StorageKey<T> {
+  /** Registry information for the key. */
+  readonly info: StorageKeyInfo;
+  /** The stored value, or the default value when missing, corrupt or invalid. */
+  get(): Promise<T>;
+  /** Read the value and report exactly what was found. */
+  read(): Promise<StorageReadResult<T>>;
+  /** Store a value, applying the key's TTL. */
+  set(value: T): Promise<void>;
+  /** Remove the stored value. */
+  remove(): Promise<void>;
+  /**
+   * Subscribe to changes of the key. The listener receives the new value
+   * (the default value after a removal).
+   *
+   * @returns An unsubscribe function to remove the listener.
+   */
+  subscribe(listener: (value: T) => void): () => void;
+}
+
+interface RegisteredKey {
+  info: StorageKeyInfo;
+  // Default value as encoded by the key's codec, to recognize redeclarations
+  encodedDefault: string;
+}
+
+// Declared keys, by full key
+const registry = new Map<string, RegisteredKey>();
+
+/**
+ * Declare a typed storage key.
+ *
+ * Declaring a key again with the same TTL and default value is allowed, so
+ * modules re-evaluated by Fast Refresh keep working; the new handle
+ * replaces the old one in the registry.
+ *
+ * @typeParam T - The type of the stored value.
+ * @param definition - Name, codec, default value, TTL and scope of the key.
+ * @returns A typed handle for reading and writing the key.
+ * @throws Error if the name is empty, the TTL is invalid, or the key is
+ *   already declared with a different TTL or default value.
+ *
+ * @example
+ * ```ts
+ * export const themeKey = defineStorageKey<'light' | 'dark'>({
+ *   name: 'theme',
+ *   scope: 'settings',
+ *   defaultValue: 'light',
+ * });
+ *
+ * const theme = await themeKey.get();
+ * await themeKey.set('dark');
+ * const unsubscribe = themeKey.subscribe(applyTheme);
+ * ```
+ */
+export function defineStorageKey<T>(
+  definition: StorageKeyDefinition<T>
+): StorageKey<T> {
+  const { name, scope, ttl, defaultValue } = definition;
+  if (!name) throw new Error('Storage key name must be a non-empty string');
+  if (ttl !== undefined && !(ttl > 0)) {
+    throw new Error(`Invalid TTL for storage key "${name}": ${ttl}`);
+  }
+
+  const key = scope ? `${scope}:${name}` : name;
+  const codec = definition.codec ?? jsonCodec<T>();
+  const encodedDefault = codec.encode(defaultValue);
+  const existing = registry.get(key);
+  if (
+    existing &&
+    (existing.info.ttl !== ttl || existing.encodedDefault !== encodedDefault)
+  ) {
+    throw new Error(`Storage key "${key}" is already defined`);
+  }
+  const info: StorageKeyInfo = { name, scope, key, ttl };
+  registry.set(key, { info, encodedDefault });
+
+  const baseStorage = definition.storage ?? advancedRNStorage;
+  const storage = scope ? baseStorage.scope(scope) : baseStorage;
+
+  const read = async (): Promise<StorageReadResult<T>> => {
+    const raw = await storage.getItem(name);
+    if (raw == null) return { status: 'missing' };
+    try {
+      return { status: 'ok', value: codec.decode(raw, key) };
+    } catch (e) {
+      if (e instanceof StorageValidationError) {
+        return { status: 'invalid', error: e };
+      }
+      return {
+        status: 'corrupt',
+        error: e instanceof Error ? e : new Error(String(e)),
+      };
+    }
+  };
+
+  const get = async (): Promise<T> => {
+    const result = await read();
+    return result.status === 'ok' ? result.value : defaultValue;
+  };
+
+  return {
+    info,
+    get,
+    read,
+    set: (value) => storage.setItem(name, codec.encode(value), ttl),
+    remove: () => storage.removeItem(name),
+    subscribe: (listener) => {
+      let latestRead = 0;
+      return storage.subscribe(name, () => {
+        // Only deliver the most recent value when changes overlap
+        const current = ++latestRead;
+        get()
+          .catch(() => defaultValue)
+          .then((value) => {
+            if (current === latestRead) listener(value);
+          });
+      });
+    },
+  };
+}
+
+/**
+ * List every declared storage key.
+ *
+ * @returns Registry entries, in declaration order.
+ *
+ * @example
+ * ```ts
+ * const persisted = getRegisteredStorageKeys().map((info) => info.key);
+ * ```
+ */
+export function getRegisteredStorageKeys(): StorageKeyInfo[] {
+  return [...registry.values()].map((entry) => entry.info);
+}
+
+/**
+ * Forget every declared storage key.
+ *
+ * @example
+ * ```ts
+ * resetStorageKeyRegistry(); // for testing teardown
+ * ```
+ */
+export function resetStorageKeyRegistry(): void {
+  registry.clear();
+}
@@ -0,0 +1,107 @@
+/**
+ * @fileoverview Quarantine records for corrupt persisted entries.
+ *
+ * When a stored envelope cannot be decoded (truncated JSON, a malformed TTL
+ * envelope, an undecodable serialized object), it is moved out of its key
+ * into a record under the `__quarantine:` namespace instead of being passed
+ * through or dropped, and the move is reported through the logger. Records
+ * keep the raw value and the error so support tooling can inspect them.
+ */
+
+/** Namespace holding quarantine records, shared by every scope of a backend. */
+export const QUARANTINE_PREFIX = '__quarantine:';
+
+/**
+ * A corrupt entry moved to quarantine.
+ */
+export interface QuarantinedEntry {
+  /** The full key (including any namespace) the value was stored under. */
+  key: string;
+  /** The raw stored string. */
+  value: string;
+  /** Why the value was considered corrupt. */
+  error: string;
+  /** When the entry was quarantined (ms since epoch). */
+  quarantinedAt: number;
+}
+
+/**
+ * Check whether a stored key holds a quarantine record.
+ */
+export function isQuarantineKey(key: string): boolean {
+  return key.startsWith(QUARANTINE_PREFIX);
+}
+
+/**
+ * Parse a stored quarantine record.
+ *
+ * @returns The record, or `null` if the string is not a valid record.
+ */
+export function parseQuarantinedEntry(raw: string): QuarantinedEntry | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null;
+  const entry = parsed as Record<string, unknown>;
+  if (
+    typeof entry.key !== 'string' ||
+    typeof entry.value !== 'string' ||
+    typeof entry.error !== 'string' ||
+    typeof entry.quarantinedAt !== 'number'
+  ) {
+    return null;
+  }
+  return parsed as QuarantinedEntry;
+}
+
+/** How a serialized TTL envelope (`JSON.stringify` of a `StoredValue`) starts. */
+export const TTL_ENVELOPE_PREFIX = '{"value":';
+
+/**
+ * Check whether a raw value starts like one of the given envelopes.
+ *
+ * Only values that match are candidates for quarantine: anything else may
+ * be a legacy plain string (such as `'{name} says hi'`) and must be left
+ * alone.
+ *
+ * @param raw - The stored string.
+ * @param prefixes - How the envelopes start when serialized.
+ */
+export function hasEnvelopePrefix(
+  raw: string,
+  prefixes: readonly string[]
+): boolean {
+  return prefixes.some((prefix) => raw.startsWith(prefix));
+}
+
+/**
+ * Check a raw value that did not parse as a TTL envelope for signs of
+ * corruption.
+ *
+ * Only values that start like a serialized TTL envelope are considered:
+ * they are corrupt if they do not parse (e.g. truncated writes) or carry
+ * invalid envelope fields. Every other value, JSON or not, is a legacy
+ * plain value and is valid.
+ *
+ * @param raw - The stored string.
+ * @returns The reason the value is corrupt, or `null` if it is not.
+ */
+export function detectEnvelopeCorruption(raw: string): string | null {
+  if (!hasEnvelopePrefix(raw, [TTL_ENVELOPE_PREFIX])) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return `Invalid JSON: ${e instanceof Error ? e.message : String(e)}`;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return null;
+  }
+  return 'value' in parsed && 'timestamp' in parsed
+    ? 'Malformed TTL envelope'
+    : null;
+}
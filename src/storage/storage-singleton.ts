@@ -1,6 +1,51 @@
 import type { StorageService } from '@sudobility/di/interfaces';
-import type { StorageType, Optional } from '@sudobility/types';
-import { RNStorage } from './storage.rn.js';
+import { StorageType, type Optional } from '@sudobility/types';
+import {
+  RNStorage,
+  type RNStorageOptions,
+  type StorageChangeListener,
+  type StorageStats,
+} from './storage.rn.js';
+import type { StorageCacheStats } from './memory-cache.js';
+import {
+  hasEnvelopePrefix,
+  type QuarantinedEntry,
+} from './storage-quarantine.js';
+import { getLogger } from '../logging/logging.rn.js';
+import type {
+  StorageImportOptions,
+  StorageSnapshot,
+  StorageSnapshotOptions,
+} from './storage-snapshot.js';
+import {
+  richCodec,
+  StorageTypeError,
+  type StorageCodec,
+} from './storage-codec.js';
+import {
+  isEncryptedPayload,
+  openSealedValue,
+  type EncryptedPayload,
+  type StorageCipher,
+} from './storage-encryption.js';
+import {
+  getSchemaVersion,
+  isVersionedPayload,
+  runMigrations,
+  type VersionedPayload,
+} from './storage-migrations.js';
+import {
+  StorageValidationError,
+  validateStoredValue,
+  type StorageReadResult,
+  type StorageValidator,
+} from './storage-validation.js';
+import {
+  instrumentStorage,
+  resolveInstrumentation,
+  type StorageInstrumentationOptions,
+} from './storage-instrumentation.js';
+import { utf8ByteLength } from './storage-chunks.js';
 
 /**
  * React Native Storage Service implementing the `StorageService` interface.
@@ -14,13 +59,39 @@ import { RNStorage } from './storage.rn.js';
  *   await service.setItem('key', 'value');
  * }
  * console.log(service.getType()); // 'asyncStorage'
+ *
+ * // Same API on a different backend
+ * const fast = new RNStorageService({ backend: new MMKVStorageBackend(mmkv) });
+ * console.log(fast.getType()); // 'mmkv'
+ *
+ * // Per-account keyspace that can be cleared on logout
+ * await service.scope('account:42').clear();
  * ```
  */
 export class RNStorageService implements StorageService {
   private storage: RNStorage;
 
-  constructor() {
-    this.storage = new RNStorage();
+  /**
+   * Create a new RNStorageService.
+   *
+   * @param options - Optional storage options (e.g. a key namespace or backend).
+   */
+  constructor(options: RNStorageOptions = {}) {
+    this.storage = new RNStorage(options);
+  }
+
+  /**
+   * Create a namespaced view of this service.
+   *
+   * @param namespace - The namespace to scope keys to.
+   * @returns A new `RNStorageService` whose keys, `getAllKeys` and `clear`
+   *   are confined to the namespace.
+   * @throws Error if `namespace` is empty.
+   */
+  scope(namespace: string): RNStorageService {
+    const scoped = new RNStorageService();
+    scoped.storage = this.storage.scope(namespace);
+    return scoped;
   }
 
   /**
@@ -54,14 +125,44 @@ export class RNStorageService implements StorageService {
   }
 
   /**
-   * Clear all stored data.
+   * Retrieve several values in a single native call.
+   *
+   * @param keys - The storage keys to read.
+   * @returns `[key, value]` pairs in the order of `keys`; missing values are `null`.
+   */
+  async multiGet(keys: string[]): Promise<[string, Optional<string>][]> {
+    return this.storage.multiGet(keys);
+  }
+
+  /**
+   * Store several key-value pairs in a single native call.
+   *
+   * @param keyValuePairs - The `[key, value]` pairs to store.
+   * @throws Error if AsyncStorage is not available.
+   */
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    return this.storage.multiSet(keyValuePairs);
+  }
+
+  /**
+   * Deep-merge JSON values into existing JSON values in a single native call.
+   *
+   * @param keyValuePairs - The `[key, jsonPatch]` pairs to merge.
+   * @throws Error if AsyncStorage is not available.
+   */
+  async multiMerge(keyValuePairs: [string, string][]): Promise<void> {
+    return this.storage.multiMerge(keyValuePairs);
+  }
+
+  /**
+   * Clear all stored data (only the namespace, when scoped).
    */
   async clear(): Promise<void> {
     return this.storage.clear();
   }
 
   /**
-   * Get all keys currently stored.
+   * Get all keys currently stored (relative to the namespace, when scoped).
    *
    * @returns An array of all storage keys.
    */
@@ -69,23 +170,146 @@ export class RNStorageService implements StorageService {
     return this.storage.getAllKeys();
   }
 
+  /**
+   * Get the read cache counters.
+   *
+   * @returns Hit/miss counters and size, or `null` if caching is disabled.
+   */
+  getCacheStats(): StorageCacheStats | null {
+    return this.storage.getCacheStats();
+  }
+
+  /**
+   * Report how much space the stored keys and values take.
+   *
+   * @returns Total bytes, key count and per-prefix usage.
+   */
+  async getStorageStats(): Promise<StorageStats> {
+    return this.storage.getStorageStats();
+  }
+
+  /**
+   * Export stored keys and values as a versioned, checksummed document.
+   *
+   * @param options - Optional include/exclude key patterns.
+   * @returns A JSON-serializable `StorageSnapshot`.
+   */
+  async exportSnapshot(
+    options: StorageSnapshotOptions = {}
+  ): Promise<StorageSnapshot> {
+    return this.storage.exportSnapshot(options);
+  }
+
+  /**
+   * Restore a snapshot produced by `exportSnapshot()`.
+   *
+   * @param snapshot - The snapshot document (e.g. parsed from JSON).
+   * @param options - Import mode (`'merge'` by default, or `'replace'`).
+   * @returns The number of entries written.
+   * @throws StorageSnapshotError if the document is invalid.
+   */
+  async importSnapshot(
+    snapshot: unknown,
+    options: StorageImportOptions = {}
+  ): Promise<number> {
+    return this.storage.importSnapshot(snapshot, options);
+  }
+
+  /**
+   * List quarantined corrupt entries, for support diagnostics.
+   *
+   * @returns The quarantine records, oldest first.
+   */
+  async getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+    return this.storage.getQuarantinedEntries();
+  }
+
+  /**
+   * Read one quarantine record.
+   *
+   * @param key - The full key, as reported by `getQuarantinedEntries()`.
+   * @returns The record, or `null` if the key is not quarantined.
+   */
+  async getQuarantinedEntry(key: string): Promise<QuarantinedEntry | null> {
+    return this.storage.getQuarantinedEntry(key);
+  }
+
+  /**
+   * Delete quarantine records.
+   *
+   * @param keys - Full keys of the records to delete. Defaults to every record.
+   * @returns The number of records deleted.
+   */
+  async purgeQuarantine(keys?: string[]): Promise<number> {
+    return this.storage.purgeQuarantine(keys);
+  }
+
+  /**
+   * Subscribe to changes of a key, or of every key matching a pattern.
+   *
+   * Fires on `setItem`, `removeItem` and `clear`, including changes made
+   * through other storage instances.
+   *
+   * @param keyOrPattern - An exact key, or a `RegExp` tested against keys.
+   * @param listener - Function invoked with a `StorageChangeEvent` on each change.
+   * @returns An unsubscribe function to remove the listener.
+   *
+   * @example
+   * ```ts
+   * const unsub = service.subscribe('theme', () => reloadTheme());
+   * ```
+   */
+  subscribe(
+    keyOrPattern: string | RegExp,
+    listener: StorageChangeListener
+  ): () => void {
+    return this.storage.subscribe(keyOrPattern, listener);
+  }
+
   /**
    * Check if the storage backend is available.
    *
-   * @returns `true` -- AsyncStorage is always available in React Native.
+   * @returns `true` if a backend was injected or the AsyncStorage native
+   *   module loaded; `false` otherwise, even when running on the in-memory fallback.
    */
   isAvailable(): boolean {
-    // AsyncStorage is always available in React Native
-    return true;
+    return this.storage.isAvailable();
+  }
+
+  /**
+   * Check if the service is running on the volatile in-memory fallback.
+   *
+   * @returns `true` if created with `fallbackToMemory` and AsyncStorage is missing.
+   */
+  isDegraded(): boolean {
+    return this.storage.isDegraded();
   }
 
   /**
    * Get the storage type identifier.
    *
-   * @returns `'asyncStorage'` as the storage type.
+   * Persistent backends without a `StorageType` of their own (MMKV, SQLite,
+   * custom adapters) report `StorageType.ASYNC_STORAGE`; use
+   * `getBackendType()` for their name.
+   *
+   * @returns `StorageType.MEMORY` for in-memory storage (including degraded
+   *   mode), otherwise `StorageType.ASYNC_STORAGE`.
    */
   getType(): StorageType {
-    return 'asyncStorage' as StorageType;
+    return this.storage.getBackendType() === 'memory'
+      ? StorageType.MEMORY
+      : StorageType.ASYNC_STORAGE;
+  }
+
+  /**
+   * Get the identifier of the active backend.
+   *
+   * @returns The injected backend's `type` (`'memory'`, `'mmkv'`, `'sqlite'`
+   *   for the built-in adapters), `'memory'` in degraded mode, or
+   *   `'asyncStorage'` by default.
+   */
+  getBackendType(): string {
+    return this.storage.getBackendType();
   }
 
   /**
@@ -96,11 +320,47 @@ export class RNStorageService implements StorageService {
   }
 }
 
+/**
+ * Options for constructing an `RNSerializedStorageService`.
+ */
+export interface RNSerializedStorageOptions extends RNStorageOptions {
+  /**
+   * Cipher used to encrypt serialized objects at rest. When omitted, objects
+   * are stored as plain JSON. Reading an encrypted object without a cipher throws.
+   */
+  cipher?: StorageCipher | undefined;
+  /**
+   * Codec converting objects to and from stored strings. Defaults to
+   * `richCodec`, which round-trips `Date`, `Map`, `Set`, `BigInt`, typed
+   * arrays and `undefined` and reads plain JSON as is.
+   */
+  codec?: StorageCodec<unknown> | undefined;
+}
+
+/** How the envelopes this service writes start when serialized. */
+const SERIALIZED_ENVELOPE_PREFIXES = ['{"__enc":', '{"__v":', '{"$rich":'];
+
+/**
+ * Operations of `RNSerializedStorageService` timed when instrumentation is
+ * enabled. Internal reads use the private `read()`, so a `getObject()` is
+ * not also counted as a `readObject()`.
+ */
+const SERIALIZED_STORAGE_OPERATIONS = [
+  'getObject',
+  'readObject',
+  'setObject',
+  'update',
+  'compareAndSet',
+  'removeObject',
+  'hasObject',
+] as const;
+
 /**
  * Serialized storage service for storing objects as JSON.
  *
  * Provides type-safe serialization/deserialization of objects to/from
- * AsyncStorage via `RNStorage`.
+ * AsyncStorage via `RNStorage`. Values plain JSON cannot represent (dates,
+ * maps, sets, bigints, typed arrays) are handled by the configured codec.
  *
  * @example
  * ```ts
@@ -111,36 +371,187 @@ export class RNStorageService implements StorageService {
  */
 export class RNSerializedStorageService {
   private storage: RNStorage;
+  private cipher: StorageCipher | undefined;
+  private codec: StorageCodec<unknown>;
+  private instrumentation: StorageInstrumentationOptions | undefined;
 
-  constructor() {
-    this.storage = new RNStorage();
+  /**
+   * Create a new RNSerializedStorageService.
+   *
+   * @param options - Optional storage options (key namespace, cipher, codec,
+   *   instrumentation).
+   */
+  constructor(options: RNSerializedStorageOptions = {}) {
+    // Operations are timed at this level only, not again by the inner storage
+    this.storage = new RNStorage({ ...options, instrumentation: undefined });
+    this.cipher = options.cipher;
+    this.codec = options.codec ?? richCodec;
+    this.instrumentation = resolveInstrumentation(options.instrumentation);
+    if (this.instrumentation) {
+      instrumentStorage(
+        this,
+        'RNSerializedStorageService',
+        SERIALIZED_STORAGE_OPERATIONS,
+        this.instrumentation,
+        (payload) => this.measureObject(payload)
+      );
+    }
+  }
+
+  /**
+   * Create a namespaced view of this service.
+   *
+   * @param namespace - The namespace to scope keys to.
+   * @returns A new `RNSerializedStorageService` confined to the namespace.
+   * @throws Error if `namespace` is empty.
+   */
+  scope(namespace: string): RNSerializedStorageService {
+    const scoped = new RNSerializedStorageService({
+      cipher: this.cipher,
+      codec: this.codec,
+      instrumentation: this.instrumentation,
+    });
+    scoped.storage = this.storage.scope(namespace);
+    return scoped;
   }
 
   /**
    * Retrieve and deserialize a stored JSON object.
    *
+   * Objects stored at an older schema version are upgraded through the
+   * migrations registered with `registerMigration()` and written back.
+   * When a validator is given, the object is checked at runtime and `null`
+   * is returned if it does not match; use `readObject()` to find out why.
+   *
    * @typeParam T - The expected type of the stored object.
    * @param key - The storage key.
-   * @returns The deserialized object, or `null` if the key does not exist or parsing fails.
+   * @param validator - Optional type guard or zod-style schema.
+   * @returns The deserialized object, or `null` if the key does not exist,
+   *   parsing fails or validation fails.
+   * @throws StorageEncryptionError if the object is encrypted and cannot be decrypted.
+   * @throws StorageMigrationError if the object cannot be upgraded to the current version.
    *
    * @example
    * ```ts
    * const user = await service.getObject<{ name: string }>('user');
+   * const settings = await service.getObject('settings', SettingsSchema);
+   * ```
+   */
+  async getObject<T>(key: string): Promise<Optional<T>>;
+  async getObject<T>(
+    key: string,
+    validator: StorageValidator<T>
+  ): Promise<Optional<T>>;
+  async getObject<T>(
+    key: string,
+    validator?: StorageValidator<T>
+  ): Promise<Optional<T>> {
+    const result = await this.read(key, false, validator);
+    return result.status === 'ok' ? result.value : null;
+  }
+
+  /**
+   * Retrieve a stored object and report exactly what was found.
+   *
+   * Unlike `getObject()`, a missing key, unparseable data and data that
+   * fails validation are reported as distinct statuses. Unparseable
+   * envelopes (encrypted, versioned or rich-encoded) are moved to quarantine
+   * (see `getQuarantinedEntries()`); other unparseable values, such as plain
+   * strings written through `RNStorage`, and values using a type that is not
+   * registered are reported as `corrupt`, logged and left in place.
+   *
+   * @typeParam T - The expected type of the stored object.
+   * @param key - The storage key.
+   * @param validator - Optional type guard or zod-style schema.
+   * @returns A `StorageReadResult` with status `ok`, `missing`, `corrupt` or `invalid`.
+   * @throws StorageEncryptionError if the object is encrypted and cannot be decrypted.
+   * @throws StorageMigrationError if the object cannot be upgraded to the current version.
+   *
+   * @example
+   * ```ts
+   * const result = await service.readObject('settings', isSettings);
+   * switch (result.status) {
+   *   case 'ok': return result.value;
+   *   case 'missing': return defaultSettings;
+   *   case 'corrupt':
+   *   case 'invalid': logger.warn(result.error); return defaultSettings;
+   * }
    * ```
    */
-  async getObject<T>(key: string): Promise<Optional<T>> {
+  async readObject<T>(
+    key: string,
+    validator?: StorageValidator<T>
+  ): Promise<StorageReadResult<T>> {
+    return this.read(key, false, validator);
+  }
+
+  /**
+   * Implementation of `readObject()`, for internal reads that must not be
+   * timed on their own.
+   *
+   * @param lockHeld - Whether the caller already holds the key lock.
+   */
+  private async read<T>(
+    key: string,
+    lockHeld: boolean,
+    validator?: StorageValidator<T>
+  ): Promise<StorageReadResult<T>> {
     const value = await this.storage.getItem(key);
-    if (!value) return null;
+    if (!value) return { status: 'missing' };
 
+    let unwrapped: { data: unknown; version: number } | null;
     try {
-      return JSON.parse(value) as T;
-    } catch {
-      return null;
+      unwrapped = await this.unwrap(key, value);
+    } catch (e) {
+      if (!(e instanceof StorageTypeError)) throw e;
+      // Not corruption: readable again once the type is registered
+      getLogger().child('Storage').warn(e.message);
+      return { status: 'corrupt', error: e };
+    }
+    if (!unwrapped) {
+      const error = new Error(`Stored value for "${key}" cannot be decoded`);
+      if (hasEnvelopePrefix(value, SERIALIZED_ENVELOPE_PREFIXES)) {
+        await this.storage.quarantine(key, error);
+      } else {
+        // Possibly a plain value written through RNStorage: leave it in place
+        getLogger().child('Storage').warn(error.message);
+      }
+      return { status: 'corrupt', error };
+    }
+
+    let data = unwrapped.data;
+    if (unwrapped.version < getSchemaVersion(key)) {
+      data = await runMigrations(key, data, unwrapped.version);
+      const migrated = await this.wrap(key, data);
+      if (lockHeld) {
+        await this.storage.setItem(key, migrated);
+      } else {
+        // Only write back if no other write landed while migrating
+        await this.storage.withLock(key, async () => {
+          if ((await this.storage.getItem(key)) === value) {
+            await this.storage.setItem(key, migrated);
+          }
+        });
+      }
+    }
+
+    if (!validator) return { status: 'ok', value: data as T };
+    try {
+      return { status: 'ok', value: validateStoredValue(key, validator, data) };
+    } catch (e) {
+      if (e instanceof StorageValidationError) {
+        return { status: 'invalid', error: e };
+      }
+      throw e;
     }
   }
 
   /**
-   * Serialize and store an object as JSON.
+   * Serialize and store an object.
+   *
+   * Keys with registered migrations are wrapped in a versioned envelope.
+   * When a cipher is configured, the JSON is encrypted and wrapped in an
+   * envelope recording the key version used.
    *
    * @typeParam T - The type of the object to store.
    * @param key - The storage key.
@@ -153,7 +564,83 @@ export class RNSerializedStorageService {
    * ```
    */
   async setObject<T>(key: string, value: T): Promise<void> {
-    await this.storage.setItem(key, JSON.stringify(value));
+    await this.storage.withLock(key, async () =>
+      this.storage.setItem(key, await this.wrap(key, value))
+    );
+  }
+
+  /**
+   * Atomically read, transform and write an object.
+   *
+   * Concurrent `update`, `compareAndSet`, `setObject` and `removeObject`
+   * calls on the same key are serialized, so no update is lost.
+   *
+   * @typeParam T - The type of the stored object.
+   * @param key - The storage key.
+   * @param updater - Receives the current object (`null` if missing, corrupt
+   *   or invalid) and returns the object to store.
+   * @param validator - Optional type guard or zod-style schema for the current object.
+   * @returns The stored object.
+   * @throws StorageEncryptionError if the object is encrypted and cannot be decrypted.
+   * @throws StorageMigrationError if the object cannot be upgraded to the current version.
+   *
+   * @example
+   * ```ts
+   * await service.update<string[]>('drafts', (drafts) => [...(drafts ?? []), id]);
+   * ```
+   */
+  async update<T>(
+    key: string,
+    updater: (current: Optional<T>) => T | Promise<T>,
+    validator?: StorageValidator<T>
+  ): Promise<T> {
+    return this.storage.withLock(key, async () => {
+      const result = await this.read(key, true, validator);
+      const next = await updater(result.status === 'ok' ? result.value : null);
+      await this.storage.setItem(key, await this.wrap(key, next));
+      return next;
+    });
+  }
+
+  /**
+   * Write an object only if the stored object still equals `expected`.
+   *
+   * Objects are compared by their encoded form. Corrupt or
+   * undecodable data never matches.
+   *
+   * @typeParam T - The type of the stored object.
+   * @param key - The storage key.
+   * @param expected - The object the caller last read (`null` for missing).
+   * @param next - The object to store.
+   * @returns `true` if written; `false` if another write changed the object first.
+   * @throws StorageEncryptionError if the object is encrypted and cannot be decrypted.
+   * @throws StorageMigrationError if the object cannot be upgraded to the current version.
+   *
+   * @example
+   * ```ts
+   * const draft = await service.getObject<Draft>('draft');
+   * if (!(await service.compareAndSet('draft', draft, edited))) {
+   *   // Someone else saved first: reload and retry
+   * }
+   * ```
+   */
+  async compareAndSet<T>(
+    key: string,
+    expected: Optional<T>,
+    next: T
+  ): Promise<boolean> {
+    return this.storage.withLock(key, async () => {
+      const result = await this.read<T>(key, true);
+      if (result.status === 'corrupt' || result.status === 'invalid') {
+        return false;
+      }
+      const current = result.status === 'ok' ? result.value : null;
+      if (this.codec.encode(current) !== this.codec.encode(expected ?? null)) {
+        return false;
+      }
+      await this.storage.setItem(key, await this.wrap(key, next));
+      return true;
+    });
   }
 
   /**
@@ -162,7 +649,7 @@ export class RNSerializedStorageService {
    * @param key - The storage key to remove.
    */
   async removeObject(key: string): Promise<void> {
-    await this.storage.removeItem(key);
+    await this.storage.withLock(key, () => this.storage.removeItem(key));
   }
 
   /**
@@ -176,21 +663,152 @@ export class RNSerializedStorageService {
     return value !== null;
   }
 
+  /**
+   * List quarantined corrupt entries, for support diagnostics.
+   *
+   * @returns The quarantine records, oldest first.
+   */
+  async getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+    return this.storage.getQuarantinedEntries();
+  }
+
+  /**
+   * Read one quarantine record.
+   *
+   * @param key - The full key, as reported by `getQuarantinedEntries()`.
+   * @returns The record, or `null` if the key is not quarantined.
+   */
+  async getQuarantinedEntry(key: string): Promise<QuarantinedEntry | null> {
+    return this.storage.getQuarantinedEntry(key);
+  }
+
+  /**
+   * Delete quarantine records.
+   *
+   * @param keys - Full keys of the records to delete. Defaults to every record.
+   * @returns The number of records deleted.
+   */
+  async purgeQuarantine(keys?: string[]): Promise<number> {
+    return this.storage.purgeQuarantine(keys);
+  }
+
   /**
    * Dispose of the serialized storage service and its underlying storage.
    */
   dispose(): void {
     this.storage.dispose();
   }
+
+  /**
+   * Encoded size of an object read or written, for slow-operation logs.
+   *
+   * @returns The size in bytes, or `null` for missing values, updaters and
+   *   values the codec cannot encode.
+   */
+  private measureObject(payload: unknown): number | null {
+    if (payload == null || typeof payload === 'function') return null;
+    try {
+      return utf8ByteLength(this.codec.encode(payload));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Serialize a value into its stored form: versioned envelope (if the key
+   * has a schema version), then encryption (if a cipher is configured).
+   */
+  private async wrap(key: string, value: unknown): Promise<string> {
+    const version = getSchemaVersion(key);
+    const envelope: VersionedPayload | null =
+      version > 0 ? { __v: version, data: value } : null;
+    const encoded = this.codec.encode(envelope ?? value);
+    if (!this.cipher) return encoded;
+
+    const payload: EncryptedPayload = {
+      __enc: this.cipher.keyVersion,
+      data: await this.cipher.encrypt(encoded),
+    };
+    return JSON.stringify(payload);
+  }
+
+  /**
+   * Reverse `wrap`: decrypt and unpack the versioned envelope.
+   *
+   * @returns The data and its schema version (0 for bare JSON), or `null`
+   *   if the stored string cannot be decoded.
+   * @throws StorageTypeError if the data uses a type that is not registered.
+   */
+  private async unwrap(
+    key: string,
+    raw: string
+  ): Promise<{ data: unknown; version: number } | null> {
+    let encoded = raw;
+    const outer = parseJson(raw);
+    if (isEncryptedPayload(outer)) {
+      encoded = await openSealedValue(
+        this.cipher,
+        outer.data,
+        outer.__enc,
+        key
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = this.codec.decode(encoded, key);
+    } catch (e) {
+      if (e instanceof StorageTypeError) throw e;
+      return null;
+    }
+
+    if (isVersionedPayload(parsed)) {
+      return { data: parsed.data, version: parsed.__v };
+    }
+    return { data: parsed, version: 0 };
+  }
+}
+
+/**
+ * Parse a JSON string.
+ *
+ * @returns The parsed value, or `undefined` if the string is not valid JSON.
+ */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
 }
 
 // Singleton management
 let storageService: RNStorageService | null = null;
+// Partitioning: the active user and the service scoped to their partition
+let activeUserId: string | null = null;
+let userStorageService: RNStorageService | null = null;
+
+/** Namespace under which per-user partitions live (`user:<id>:<key>`). */
+export const USER_PARTITION_NAMESPACE = 'user';
+
+/**
+ * Namespace of a user's partition. The id is URI-encoded so that ids
+ * containing `:` cannot nest inside another user's partition.
+ */
+function userPartition(userId: string): string {
+  if (!userId) throw new Error('User id must be a non-empty string');
+  return `${USER_PARTITION_NAMESPACE}:${encodeURIComponent(userId)}`;
+}
 
 /**
  * Get the storage service singleton, auto-creating one if not yet initialized.
  *
- * @returns The `RNStorageService` singleton instance.
+ * While a user is active (see `switchUser()`), the returned service is
+ * confined to that user's partition: every key is prefixed with the user
+ * id, and `getAllKeys()`/`clear()` only see the user's keys. Obtain the
+ * service again after switching users rather than keeping a reference.
+ *
+ * @returns The `RNStorageService` singleton, scoped to the active user if any.
  *
  * @example
  * ```ts
@@ -199,19 +817,91 @@ let storageService: RNStorageService | null = null;
  * ```
  */
 export function getStorageService(): RNStorageService {
+  if (activeUserId === null) return getDeviceStorageService();
+  if (!userStorageService) {
+    userStorageService = getDeviceStorageService().scope(
+      userPartition(activeUserId)
+    );
+  }
+  return userStorageService;
+}
+
+/**
+ * Get the unpartitioned storage service, for device-level keys (onboarding
+ * state, the last signed-in user, feature flags) that outlive a session.
+ *
+ * @returns The `RNStorageService` singleton, never scoped to a user.
+ *
+ * @example
+ * ```ts
+ * await getDeviceStorageService().setItem('onboardingDone', 'true');
+ * ```
+ */
+export function getDeviceStorageService(): RNStorageService {
   if (!storageService) {
     storageService = new RNStorageService();
   }
   return storageService;
 }
 
+/**
+ * Make a user's partition the active one, or leave partitioning with `null`.
+ *
+ * Only changes which keys `getStorageService()` sees; no data is moved or
+ * removed, and device-level keys are untouched.
+ *
+ * @param userId - The signed-in user's id, or `null` after sign-out.
+ * @throws Error if `userId` is an empty string.
+ *
+ * @example
+ * ```ts
+ * switchUser(account.id);
+ * await getStorageService().setItem('drafts', json); // user:<id>:drafts
+ * ```
+ */
+export function switchUser(userId: string | null): void {
+  if (userId !== null) userPartition(userId);
+  if (userId === activeUserId) return;
+  activeUserId = userId;
+  userStorageService = null;
+}
+
+/**
+ * Get the id of the user whose partition is active.
+ *
+ * @returns The active user id, or `null` if no user is active.
+ */
+export function getActiveUserId(): string | null {
+  return activeUserId;
+}
+
+/**
+ * Remove every key in a user's partition, e.g. on sign-out.
+ *
+ * Works whether or not the user is active; device-level keys and other
+ * users' partitions are untouched.
+ *
+ * @param userId - The user whose data to remove.
+ * @throws Error if `userId` is an empty string.
+ *
+ * @example
+ * ```ts
+ * await wipeUserData(account.id);
+ * switchUser(null);
+ * ```
+ */
+export async function wipeUserData(userId: string): Promise<void> {
+  await getDeviceStorageService().scope(userPartition(userId)).clear();
+}
+
 /**
  * Initialize the storage service singleton, optionally injecting a custom instance.
  *
  * If a previous singleton exists, it is replaced (no dispose is called on the old one).
+ * The active user, if any, stays active on the new instance.
  *
  * @param service - Optional custom `RNStorageService` instance. If omitted, a new one is created.
- * @returns The initialized `RNStorageService` singleton.
+ * @returns The initialized (unpartitioned) `RNStorageService` singleton.
  *
  * @example
  * ```ts
@@ -226,11 +916,12 @@ export function initializeStorageService(
   service?: RNStorageService
 ): RNStorageService {
   storageService = service ?? new RNStorageService();
+  userStorageService = null;
   return storageService;
 }
 
 /**
- * Reset the storage service singleton to `null`.
+ * Reset the storage service singleton to `null` and clear the active user.
  *
  * Disposes the current instance if one exists.
  *
@@ -244,4 +935,6 @@ export function resetStorageService(): void {
     storageService.dispose();
     storageService = null;
   }
+  activeUserId = null;
+  userStorageService = null;
 }
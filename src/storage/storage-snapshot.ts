@@ -0,0 +1,246 @@
+/**
+ * @fileoverview Versioned snapshot documents for exporting and restoring
+ * persisted storage.
+ *
+ * `RNStorage.exportSnapshot()` produces a `StorageSnapshot`: a plain JSON
+ * document carrying every key and raw stored value (TTL envelopes and
+ * encrypted values are kept as-is, so they restore byte for byte), the
+ * expiry time of TTL entries, the key filters it was exported with, and a
+ * checksum over the entries and filters.
+ * `importSnapshot()` validates the whole document before writing anything.
+ */
+
+import { fnv1a } from './checksum.js';
+
+/** Identifies a storage snapshot document. */
+export const STORAGE_SNAPSHOT_FORMAT = 'di_rn.storage-snapshot';
+
+/** Current snapshot document version. */
+export const STORAGE_SNAPSHOT_VERSION = 1;
+
+/**
+ * One key in a snapshot.
+ */
+export interface StorageSnapshotEntry {
+  /** The key, relative to the exporting storage's namespace. */
+  key: string;
+  /** The raw stored string. */
+  value: string;
+  /** When a TTL entry expires (ms since epoch); absent for entries without TTL. */
+  expiresAt?: number;
+}
+
+/**
+ * A key pattern as recorded in a snapshot document.
+ */
+export interface StorageSnapshotPattern {
+  source: string;
+  flags: string;
+}
+
+/**
+ * Snapshot document produced by `exportSnapshot()`.
+ */
+export interface StorageSnapshot {
+  format: typeof STORAGE_SNAPSHOT_FORMAT;
+  version: number;
+  /** When the snapshot was taken (ms since epoch). */
+  createdAt: number;
+  entries: StorageSnapshotEntry[];
+  /** The `include` filter of the export, if any. */
+  include?: StorageSnapshotPattern[];
+  /** The `exclude` filter of the export, if any. */
+  exclude?: StorageSnapshotPattern[];
+  /**
+   * Checksum over `entries` and the filters; detects truncation and
+   * accidental edits, not tampering.
+   */
+  checksum: string;
+}
+
+/**
+ * Key pattern for snapshot filters: a `RegExp`, or a string used as a
+ * regex source (like `clearPattern`).
+ */
+export type StorageKeyPattern = string | RegExp;
+
+/**
+ * Options for `exportSnapshot()`.
+ */
+export interface StorageSnapshotOptions {
+  /** Only export keys matching at least one pattern. Defaults to every key. */
+  include?: StorageKeyPattern[];
+  /** Never export keys matching any pattern (e.g. secrets). Applied after `include`. */
+  exclude?: StorageKeyPattern[];
+}
+
+/**
+ * Options for `importSnapshot()`.
+ *
+ * - `merge` (default): write the snapshot's keys and keep every other key.
+ * - `replace`: first remove the keys the snapshot covers, i.e. those of
+ *   the storage (only the namespace, when scoped) that match the filters
+ *   it was exported with. Keys outside the filters are kept.
+ */
+export interface StorageImportOptions {
+  mode?: 'merge' | 'replace';
+}
+
+/**
+ * Error thrown when a snapshot document is malformed, of an unsupported
+ * version, or fails its checksum. Nothing is written when it is thrown.
+ */
+export class StorageSnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageSnapshotError';
+  }
+}
+
+/**
+ * Check a key against include/exclude filters.
+ *
+ * @param key - The key to check.
+ * @param options - The snapshot filters.
+ * @returns `true` if the key should be exported.
+ */
+export function matchesSnapshotFilters(
+  key: string,
+  options: StorageSnapshotOptions
+): boolean {
+  const test = (pattern: StorageKeyPattern) => {
+    const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+    // `g` and `y` regexes resume from `lastIndex`: always match from the start
+    regex.lastIndex = 0;
+    return regex.test(key);
+  };
+  if (options.include && !options.include.some(test)) return false;
+  return !options.exclude?.some(test);
+}
+
+/**
+ * Build a snapshot document, computing its checksum.
+ *
+ * @param entries - The entries to include.
+ * @param options - The filters the entries were selected with.
+ * @returns The snapshot document.
+ */
+export function createSnapshot(
+  entries: StorageSnapshotEntry[],
+  options: StorageSnapshotOptions = {}
+): StorageSnapshot {
+  const snapshot: StorageSnapshot = {
+    format: STORAGE_SNAPSHOT_FORMAT,
+    version: STORAGE_SNAPSHOT_VERSION,
+    createdAt: Date.now(),
+    entries,
+    checksum: '',
+  };
+  if (options.include) snapshot.include = options.include.map(toPattern);
+  if (options.exclude) snapshot.exclude = options.exclude.map(toPattern);
+  snapshot.checksum = checksumSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Get the filters a snapshot was exported with.
+ *
+ * @param snapshot - A validated snapshot.
+ * @returns Options matching the keys the snapshot covers.
+ */
+export function getSnapshotFilters(
+  snapshot: StorageSnapshot
+): StorageSnapshotOptions {
+  const filters: StorageSnapshotOptions = {};
+  const toRegExp = (pattern: StorageSnapshotPattern) =>
+    new RegExp(pattern.source, pattern.flags);
+  if (snapshot.include) filters.include = snapshot.include.map(toRegExp);
+  if (snapshot.exclude) filters.exclude = snapshot.exclude.map(toRegExp);
+  return filters;
+}
+
+/**
+ * Validate an untrusted snapshot document.
+ *
+ * @param document - The parsed document (e.g. from `JSON.parse`).
+ * @returns The document, typed.
+ * @throws StorageSnapshotError if the document is not a valid, intact snapshot.
+ */
+export function validateSnapshot(document: unknown): StorageSnapshot {
+  if (typeof document !== 'object' || document === null) {
+    throw new StorageSnapshotError('Snapshot must be an object');
+  }
+  const snapshot = document as Partial<StorageSnapshot>;
+  if (snapshot.format !== STORAGE_SNAPSHOT_FORMAT) {
+    throw new StorageSnapshotError('Not a storage snapshot');
+  }
+  if (snapshot.version !== STORAGE_SNAPSHOT_VERSION) {
+    throw new StorageSnapshotError(
+      `Unsupported snapshot version: ${String(snapshot.version)}`
+    );
+  }
+  if (!Array.isArray(snapshot.entries) || !snapshot.entries.every(isEntry)) {
+    throw new StorageSnapshotError('Snapshot entries are malformed');
+  }
+  if (!isPatternList(snapshot.include) || !isPatternList(snapshot.exclude)) {
+    throw new StorageSnapshotError('Snapshot filters are malformed');
+  }
+  if (snapshot.checksum !== checksumSnapshot(snapshot as StorageSnapshot)) {
+    throw new StorageSnapshotError('Snapshot checksum does not match');
+  }
+  return snapshot as StorageSnapshot;
+}
+
+function isEntry(value: unknown): value is StorageSnapshotEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.key === 'string' &&
+    typeof entry.value === 'string' &&
+    (entry.expiresAt === undefined || typeof entry.expiresAt === 'number')
+  );
+}
+
+function toPattern(pattern: StorageKeyPattern): StorageSnapshotPattern {
+  return typeof pattern === 'string'
+    ? { source: pattern, flags: '' }
+    : { source: pattern.source, flags: pattern.flags };
+}
+
+function isPatternList(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (!Array.isArray(value)) return false;
+  return value.every((pattern: unknown) => {
+    if (typeof pattern !== 'object' || pattern === null) return false;
+    const { source, flags } = pattern as Record<string, unknown>;
+    if (typeof source !== 'string' || typeof flags !== 'string') return false;
+    try {
+      new RegExp(source, flags);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Checksum over a canonical serialization of the entries and filters.
+ */
+function checksumSnapshot(
+  snapshot: Pick<StorageSnapshot, 'entries' | 'include' | 'exclude'>
+): string {
+  const entries = snapshot.entries.map((entry) => [
+    entry.key,
+    entry.value,
+    entry.expiresAt ?? null,
+  ]);
+  // Unfiltered snapshots keep the checksum of documents without filters
+  const filtered = snapshot.include || snapshot.exclude;
+  return fnv1a(
+    JSON.stringify(
+      filtered
+        ? [entries, snapshot.include ?? null, snapshot.exclude ?? null]
+        : entries
+    )
+  );
+}
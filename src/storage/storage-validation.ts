@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Runtime validation for typed storage reads.
+ *
+ * `RNSerializedStorageService.getObject()` and `readObject()` accept a
+ * validator so persisted data is checked where it is read, instead of being
+ * cast to `T` and failing somewhere else later. Both zod-style schemas (an
+ * object with a `parse` method) and plain type-guard functions are supported.
+ */
+
+/**
+ * Type-guard function validating a persisted value.
+ */
+export type StorageTypeGuard<T> = (value: unknown) => value is T;
+
+/**
+ * Schema/decoder with a zod-style `parse` method.
+ *
+ * `parse` returns the (possibly transformed) value, or throws if the input
+ * does not match.
+ */
+export interface StorageSchema<T> {
+  parse(value: unknown): T;
+}
+
+/**
+ * Validator accepted by typed storage reads.
+ */
+export type StorageValidator<T> = StorageTypeGuard<T> | StorageSchema<T>;
+
+/**
+ * Outcome of a typed storage read.
+ *
+ * - `ok`: the value was found and passed validation.
+ * - `missing`: nothing is stored under the key.
+ * - `corrupt`: something is stored but cannot be deserialized.
+ * - `invalid`: the value deserialized but failed validation.
+ */
+export type StorageReadResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'missing' }
+  | { status: 'corrupt'; error: Error }
+  | { status: 'invalid'; error: Error };
+
+/**
+ * Error describing why a persisted value failed validation.
+ */
+export class StorageValidationError extends Error {
+  constructor(
+    message: string,
+    public key: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'StorageValidationError';
+  }
+}
+
+/**
+ * Run a validator against a deserialized value.
+ *
+ * @param key - The storage key (for error messages).
+ * @param validator - Type guard or zod-style schema.
+ * @param value - The deserialized value.
+ * @returns The validated value (as returned by `parse`, for schemas).
+ * @throws StorageValidationError if the value does not pass validation.
+ */
+export function validateStoredValue<T>(
+  key: string,
+  validator: StorageValidator<T>,
+  value: unknown
+): T {
+  if (typeof validator === 'function') {
+    if (validator(value)) return value;
+    throw new StorageValidationError(
+      `Stored value for "${key}" failed validation`,
+      key
+    );
+  }
+
+  try {
+    return validator.parse(value);
+  } catch (e) {
+    throw new StorageValidationError(
+      `Stored value for "${key}" failed validation: ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+      key,
+      e
+    );
+  }
+}
@@ -3,27 +3,71 @@ import type {
   AdvancedPlatformStorage,
 } from '@sudobility/di/interfaces';
 import type { Optional } from '@sudobility/types';
-
-/**
- * Type definition for the AsyncStorage static interface.
- * Matches the public API of `@react-native-async-storage/async-storage`.
- */
-interface AsyncStorageStatic {
-  setItem(key: string, value: string): Promise<void>;
-  getItem(key: string): Promise<string | null>;
-  removeItem(key: string): Promise<void>;
-  clear(): Promise<void>;
-  getAllKeys(): Promise<readonly string[]>;
-  multiRemove(keys: string[]): Promise<void>;
-}
+import {
+  openSealedValue,
+  StorageEncryptionError,
+  type StorageCipher,
+} from './storage-encryption.js';
+import {
+  MemoryCache,
+  type StorageCacheOptions,
+  type StorageCacheStats,
+} from './memory-cache.js';
+import { KeyedMutex } from './keyed-mutex.js';
+import { getLogger } from '../logging/logging.rn.js';
+import {
+  instrumentStorage,
+  resolveInstrumentation,
+  type StorageInstrumentationOptions,
+} from './storage-instrumentation.js';
+import {
+  QUARANTINE_PREFIX,
+  detectEnvelopeCorruption,
+  isQuarantineKey,
+  parseQuarantinedEntry,
+  type QuarantinedEntry,
+} from './storage-quarantine.js';
+import {
+  DEFAULT_MAX_VALUE_BYTES,
+  getChunkKeys,
+  isChunkKey,
+  isChunkKeyOf,
+  joinChunks,
+  parseChunkManifest,
+  splitIntoChunks,
+  utf8ByteLength,
+  type ChunkManifest,
+  type ChunkingOptions,
+} from './storage-chunks.js';
+import {
+  createSnapshot,
+  getSnapshotFilters,
+  matchesSnapshotFilters,
+  validateSnapshot,
+  type StorageImportOptions,
+  type StorageSnapshot,
+  type StorageSnapshotEntry,
+  type StorageSnapshotOptions,
+} from './storage-snapshot.js';
+import {
+  MemoryStorageBackend,
+  type AsyncStorageStatic,
+  type StorageBackend,
+} from './storage-backends.js';
 
 // Lazy load AsyncStorage to avoid crashes if native module is not linked
 let AsyncStorageModule: AsyncStorageStatic | null = null;
+// Set after a failed load so the require (and its warning) is not repeated
+let asyncStorageLoadFailed = false;
 
 /**
  * Inject a mock or custom AsyncStorage module for testing.
  *
+ * Only affects instances created without a `backend` option. To run on a
+ * different store in production, pass a `StorageBackend` instead.
+ *
  * @param storage - The AsyncStorage implementation to use, or `null` to reset.
+ *   Either way, the in-memory fallback (and its data) is discarded.
  *
  * @example
  * ```ts
@@ -37,13 +81,16 @@ export function setAsyncStorageModule(
   storage: AsyncStorageStatic | null
 ): void {
   AsyncStorageModule = storage;
+  asyncStorageLoadFailed = false;
+  degradedBackend = null;
 }
 
 /**
  * Lazily load and return the AsyncStorage native module.
  *
  * Uses `require()` inside a try-catch to avoid crashes when the native module
- * is not linked. The module is cached after the first successful load.
+ * is not linked. The module is cached after the first successful load; a
+ * failed load is remembered until the module is reset.
  *
  * @returns The AsyncStorage module, or `null` if not available.
  *
@@ -56,7 +103,7 @@ export function setAsyncStorageModule(
  * ```
  */
 function getAsyncStorage(): AsyncStorageStatic | null {
-  if (!AsyncStorageModule) {
+  if (!AsyncStorageModule && !asyncStorageLoadFailed) {
     try {
       const mod: Record<
         string,
@@ -64,6 +111,7 @@ function getAsyncStorage(): AsyncStorageStatic | null {
       > = require('@react-native-async-storage/async-storage');
       AsyncStorageModule = (mod.default ?? mod) as AsyncStorageStatic;
     } catch (e) {
+      asyncStorageLoadFailed = true;
       console.warn('AsyncStorage not available:', e);
     }
   }
@@ -71,8 +119,312 @@ function getAsyncStorage(): AsyncStorageStatic | null {
 }
 
 /**
- * React Native storage implementation using AsyncStorage.
- * All operations are async (returns Promises).
+ * Warning reported to `subscribeToStorageWarnings()` listeners.
+ *
+ * - `degraded`: AsyncStorage could not be loaded and storage instances
+ *   created with `fallbackToMemory` switched to a volatile in-memory store.
+ */
+export interface StorageWarning {
+  type: 'degraded';
+  message: string;
+}
+
+/**
+ * Listener invoked when the storage layer reports a warning.
+ */
+export type StorageWarningListener = (warning: StorageWarning) => void;
+
+const warningListeners = new Set<StorageWarningListener>();
+
+// Volatile store shared by every instance running in degraded mode
+let degradedBackend: MemoryStorageBackend | null = null;
+
+/**
+ * Subscribe to storage warnings, such as switching to the in-memory fallback.
+ *
+ * @param listener - Function invoked with a `StorageWarning`.
+ * @returns An unsubscribe function to remove the listener.
+ *
+ * @example
+ * ```ts
+ * subscribeToStorageWarnings(({ message }) => {
+ *   logger.warn('storage', message);
+ * });
+ * ```
+ */
+export function subscribeToStorageWarnings(
+  listener: StorageWarningListener
+): () => void {
+  warningListeners.add(listener);
+  return () => {
+    warningListeners.delete(listener);
+  };
+}
+
+/**
+ * Check whether storage is running on the volatile in-memory fallback.
+ *
+ * @returns `true` once an instance created with `fallbackToMemory` found
+ *   AsyncStorage unavailable.
+ */
+export function isStorageDegraded(): boolean {
+  return degradedBackend !== null;
+}
+
+/**
+ * Get the shared in-memory fallback, creating it (and warning) on first use.
+ */
+function getDegradedBackend(): MemoryStorageBackend {
+  if (!degradedBackend) {
+    degradedBackend = new MemoryStorageBackend();
+    const warning: StorageWarning = {
+      type: 'degraded',
+      message:
+        'AsyncStorage not available; falling back to in-memory storage. Data will not persist across restarts.',
+    };
+    console.warn(warning.message);
+    warningListeners.forEach((listener) => listener(warning));
+  }
+  return degradedBackend;
+}
+
+/**
+ * Deep-merge JSON values the way AsyncStorage's `mergeItem` does: nested
+ * objects are merged key by key, anything else in `patch` replaces `target`.
+ */
+function deepMerge(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(target) || !isPlainObject(patch)) return patch;
+  const result: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = deepMerge(result[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge a JSON patch string into an existing JSON string.
+ *
+ * @param existing - The current stored string, or `null` if absent.
+ * @param patch - The JSON string to merge in.
+ * @returns The merged JSON string. If `existing` is absent or not JSON, `patch` wins.
+ * @throws SyntaxError if `patch` is not valid JSON.
+ */
+function mergeJsonStrings(existing: string | null, patch: string): string {
+  const patchValue: unknown = JSON.parse(patch);
+  if (existing === null) return patch;
+  let existingValue: unknown;
+  try {
+    existingValue = JSON.parse(existing);
+  } catch {
+    return patch;
+  }
+  return JSON.stringify(deepMerge(existingValue, patchValue));
+}
+
+/**
+ * Kind of change reported to storage subscribers.
+ *
+ * - `set`: the key was written (including merges).
+ * - `remove`: the key was removed (directly, by `clearPattern`, by clearing a
+ *   scope, or because its TTL expired).
+ * - `clear`: the whole keyspace was cleared; `key` is `null`.
+ */
+export type StorageChangeType = 'set' | 'remove' | 'clear';
+
+/**
+ * Change notification delivered to `subscribe()` listeners.
+ */
+export interface StorageChangeEvent {
+  type: StorageChangeType;
+  /** The changed key, relative to the subscriber's namespace; `null` for `clear`. */
+  key: string | null;
+}
+
+/**
+ * Listener invoked when a subscribed key changes.
+ */
+export type StorageChangeListener = (event: StorageChangeEvent) => void;
+
+// Change bus shared by every RNStorage instance (keys are full, prefixed
+// keys; `backend` is undefined for the default AsyncStorage module)
+type StorageChangeHandler = (
+  type: StorageChangeType,
+  fullKey: string | null,
+  backend: StorageBackend | undefined
+) => void;
+const changeHandlers = new Set<StorageChangeHandler>();
+
+function emitChange(
+  type: StorageChangeType,
+  fullKey: string | null,
+  backend: StorageBackend | undefined
+): void {
+  changeHandlers.forEach((handler) => handler(type, fullKey, backend));
+}
+
+// Per-key locks, per backend, shared by every instance writing to it
+const defaultBackendLocks = new KeyedMutex();
+const backendLocks = new WeakMap<StorageBackend, KeyedMutex>();
+
+function getLocks(backend: StorageBackend | undefined): KeyedMutex {
+  if (!backend) return defaultBackendLocks;
+  let locks = backendLocks.get(backend);
+  if (!locks) {
+    locks = new KeyedMutex();
+    backendLocks.set(backend, locks);
+  }
+  return locks;
+}
+
+// Whether each backend holds chunk rows: found by one key scan, then kept
+// current by chunk writes. Lets instances without chunking skip manifest
+// lookups on backends that never stored a chunked value.
+const chunkRowsPresent = new WeakMap<AsyncStorageStatic, boolean>();
+
+/** Number of keys read per batch when scanning the keyspace. */
+const DEFAULT_SCAN_BATCH_SIZE = 100;
+
+/**
+ * Storage usage report returned by `getStorageStats()`.
+ */
+export interface StorageStats {
+  /** UTF-8 bytes used by keys and values. */
+  totalBytes: number;
+  /** Number of stored keys. */
+  keyCount: number;
+  /**
+   * Usage grouped by the first `:`-separated segment of each key (relative
+   * to the namespace). Keys without a `:` are grouped under `''`.
+   */
+  byPrefix: Record<string, { bytes: number; keyCount: number }>;
+}
+
+/** Separator placed between a storage namespace and the keys inside it. */
+const NAMESPACE_SEPARATOR = ':';
+
+/**
+ * Options for constructing an `RNStorage` (or a storage wrapping one).
+ */
+export interface RNStorageOptions {
+  /**
+   * Namespace prefixed to every key (as `namespace:key`). When set,
+   * `getAllKeys`, `clear` and pattern clearing only touch keys inside it.
+   */
+  namespace?: string | undefined;
+  /**
+   * Enable a bounded in-memory LRU cache for reads. The cache is kept
+   * coherent with writes made through this instance and its scopes; writes
+   * made through other instances are not seen until the entry is evicted.
+   */
+  cache?: StorageCacheOptions | undefined;
+  /**
+   * Backend to read and write through instead of AsyncStorage, e.g. a
+   * `MemoryStorageBackend`, `MMKVStorageBackend` or `SQLiteStorageBackend`.
+   */
+  backend?: StorageBackend | undefined;
+  /**
+   * Keep working on a volatile in-memory store when AsyncStorage cannot be
+   * loaded (e.g. Expo Go, or a build where the native module is not linked)
+   * instead of failing writes. Emits a `degraded` storage warning on first
+   * use. Ignored when a `backend` is given.
+   */
+  fallbackToMemory?: boolean | undefined;
+  /**
+   * Split values larger than `maxValueBytes` across hidden chunk keys, for
+   * backends with a row size limit (Android AsyncStorage fails to read rows
+   * over ~2MB). Chunked values are read back transparently, and their
+   * chunks removed when they are overwritten or removed, whether or not
+   * this option is set.
+   */
+  chunking?: ChunkingOptions | undefined;
+  /**
+   * Time every operation, log slow ones through the `Storage` logger and
+   * aggregate durations for `getStorageMetrics()`. `true` uses the default
+   * slow threshold.
+   */
+  instrumentation?: StorageInstrumentationOptions | boolean | undefined;
+}
+
+/**
+ * Options for `RNStorage.setItem`.
+ */
+export interface RNStorageWriteOptions {
+  /**
+   * Do not notify subscribers. Meant for metadata-only rewrites (such as
+   * refreshing a sliding expiration) that leave the value unchanged.
+   */
+  silent?: boolean;
+}
+
+/**
+ * Operations of `RNStorage` timed when instrumentation is enabled. They call
+ * each other only through private methods, so each call is timed once.
+ */
+const RN_STORAGE_OPERATIONS = [
+  'getItem',
+  'setItem',
+  'removeItem',
+  'multiGet',
+  'multiSet',
+  'multiRemove',
+  'multiMerge',
+  'clear',
+  'getAllKeys',
+] as const;
+
+/** Operations of `AdvancedRNStorage` timed when instrumentation is enabled. */
+const ADVANCED_STORAGE_OPERATIONS = [
+  'getItem',
+  'getItemWithMetadata',
+  'setItem',
+  'update',
+  'compareAndSet',
+  'removeItem',
+  'multiGet',
+  'multiSet',
+  'multiMerge',
+  'hasItem',
+  'clear',
+  'clearPattern',
+  'purgeExpired',
+  'getAllKeys',
+] as const;
+
+/**
+ * Resolve the `batchSize` option of an expiry sweep.
+ *
+ * @param batchSize - The requested batch size, if any.
+ * @returns The batch size to use.
+ * @throws Error if `batchSize` is not a positive integer.
+ */
+function resolveBatchSize(batchSize: number | undefined): number {
+  if (batchSize === undefined) return DEFAULT_SCAN_BATCH_SIZE;
+  if (!(Number.isInteger(batchSize) && batchSize > 0)) {
+    throw new Error('Sweep batchSize must be a positive integer');
+  }
+  return batchSize;
+}
+
+/**
+ * Build the namespace for a nested scope.
+ *
+ * @param parent - The enclosing namespace, if any.
+ * @param child - The namespace to nest inside `parent`.
+ * @returns The combined namespace (e.g. `account:42` + `drafts` -> `account:42:drafts`).
+ * @throws Error if `child` is empty.
+ */
+function nestNamespace(parent: string | undefined, child: string): string {
+  if (!child) throw new Error('Storage namespace must be a non-empty string');
+  return parent ? `${parent}${NAMESPACE_SEPARATOR}${child}` : child;
+}
+
+/**
+ * React Native storage implementation using AsyncStorage, or an injected
+ * `StorageBackend`. All operations are async (returns Promises).
  *
  * Implements `PlatformStorage` from `@sudobility/di/interfaces`.
  * Uses lazy native module loading -- AsyncStorage is loaded on first use
@@ -83,226 +435,1547 @@ function getAsyncStorage(): AsyncStorageStatic | null {
  * const storage = new RNStorage();
  * await storage.setItem('user', 'Alice');
  * const user = await storage.getItem('user'); // 'Alice'
+ *
+ * // Namespaced view: keys are stored as `account:42:<key>`
+ * const account = storage.scope('account:42');
+ * await account.clear(); // only removes account:42:* keys
+ *
+ * // Serve repeated reads from memory
+ * const cached = new RNStorage({ cache: { maxEntries: 200 } });
+ * cached.getCacheStats(); // { hits, misses, size, maxEntries }
+ *
+ * // Hot data on MMKV instead of AsyncStorage
+ * const fast = new RNStorage({ backend: new MMKVStorageBackend(mmkv) });
  * ```
  */
 export class RNStorage implements PlatformStorage {
+  /** Namespace of this instance, or `undefined` for the global keyspace. */
+  readonly namespace: string | undefined;
+  private readonly prefix: string;
+  // Keyed by full (prefixed) key and shared with scopes for coherence
+  private cache: MemoryCache | null;
+  private readonly backend: StorageBackend | undefined;
+  private readonly fallbackToMemory: boolean;
+  private readonly chunking: ChunkingOptions | undefined;
+  private readonly maxValueBytes: number | null;
+  private readonly instrumentation: StorageInstrumentationOptions | undefined;
+
   /**
-   * Store a key-value pair in AsyncStorage.
+   * Create a new RNStorage.
    *
-   * @param key - The storage key.
-   * @param value - The string value to store.
-   * @throws Error if AsyncStorage is not available.
+   * @param options - Optional storage options (key namespace, read cache,
+   *   backend, chunking, instrumentation).
+   * @throws Error if the cache or chunking options are invalid.
+   */
+  constructor(options: RNStorageOptions = {}) {
+    this.namespace = options.namespace || undefined;
+    this.prefix = this.namespace
+      ? `${this.namespace}${NAMESPACE_SEPARATOR}`
+      : '';
+    this.cache = options.cache ? new MemoryCache(options.cache) : null;
+    this.backend = options.backend;
+    this.fallbackToMemory = options.fallbackToMemory ?? false;
+    this.chunking = options.chunking;
+    this.maxValueBytes = options.chunking
+      ? (options.chunking.maxValueBytes ?? DEFAULT_MAX_VALUE_BYTES)
+      : null;
+    if (
+      this.maxValueBytes !== null &&
+      !(Number.isInteger(this.maxValueBytes) && this.maxValueBytes >= 4)
+    ) {
+      throw new Error(
+        'Chunking maxValueBytes must be an integer of at least 4'
+      );
+    }
+    this.instrumentation = resolveInstrumentation(options.instrumentation);
+    if (this.instrumentation) {
+      instrumentStorage(
+        this,
+        'RNStorage',
+        RN_STORAGE_OPERATIONS,
+        this.instrumentation
+      );
+    }
+  }
+
+  /**
+   * Create a namespaced view of this storage.
+   *
+   * The returned storage prefixes every key with the namespace, and its
+   * `getAllKeys` and `clear` only see keys inside that namespace. Scopes
+   * can be nested, and share this instance's read cache.
+   *
+   * @param namespace - The namespace to scope keys to.
+   * @returns A new `RNStorage` confined to the namespace.
+   * @throws Error if `namespace` is empty.
    *
    * @example
    * ```ts
-   * await storage.setItem('theme', 'dark');
+   * const account = rnStorage.scope('account:42');
+   * await account.setItem('token', 'abc'); // stored as 'account:42:token'
+   * await account.getAllKeys(); // ['token']
    * ```
    */
-  async setItem(key: string, value: string): Promise<void> {
-    const storage = getAsyncStorage();
-    if (!storage) throw new Error('AsyncStorage not available');
-    await storage.setItem(key, value);
+  scope(namespace: string): RNStorage {
+    const scoped = new RNStorage({
+      namespace: nestNamespace(this.namespace, namespace),
+      backend: this.backend,
+      fallbackToMemory: this.fallbackToMemory,
+      chunking: this.chunking,
+      instrumentation: this.instrumentation,
+    });
+    scoped.cache = this.cache;
+    return scoped;
   }
 
   /**
-   * Retrieve a value from AsyncStorage by key.
+   * Get the read cache counters.
    *
-   * @param key - The storage key.
-   * @returns The stored value, or `null` if the key does not exist or AsyncStorage is unavailable.
+   * @returns Hit/miss counters and size, or `null` if caching is disabled.
    *
    * @example
    * ```ts
-   * const theme = await storage.getItem('theme'); // 'dark' or null
+   * const stats = storage.getCacheStats();
+   * console.log(stats && stats.hits / (stats.hits + stats.misses));
    * ```
    */
-  async getItem(key: string): Promise<Optional<string>> {
-    const storage = getAsyncStorage();
-    if (!storage) return null;
-    const value = await storage.getItem(key);
-    return value ?? null;
+  getCacheStats(): StorageCacheStats | null {
+    return this.cache?.getStats() ?? null;
   }
 
   /**
-   * Remove a key-value pair from AsyncStorage.
+   * Get the identifier of the backend this instance reads and writes through.
    *
-   * @param key - The storage key to remove.
+   * @returns The injected backend's `type`, `'memory'` in degraded mode, or
+   *   `'asyncStorage'` by default.
+   */
+  getBackendType(): string {
+    if (this.backend) return this.backend.type;
+    return this.isDegraded() ? 'memory' : 'asyncStorage';
+  }
+
+  /**
+   * Check whether the persistent backend can be used.
    *
-   * @example
-   * ```ts
-   * await storage.removeItem('theme');
-   * ```
+   * @returns `true` if a backend was injected or AsyncStorage loaded;
+   *   `false` if it is missing (including when running in degraded mode).
    */
-  async removeItem(key: string): Promise<void> {
-    const storage = getAsyncStorage();
-    if (!storage) return;
-    await storage.removeItem(key);
+  isAvailable(): boolean {
+    return this.backend !== undefined || getAsyncStorage() !== null;
   }
 
   /**
-   * Clear all data from AsyncStorage.
+   * Check whether this instance is running on the in-memory fallback.
    *
-   * @example
-   * ```ts
-   * await storage.clear();
-   * ```
+   * @returns `true` if `fallbackToMemory` is set and AsyncStorage is missing.
    */
-  async clear(): Promise<void> {
-    const storage = getAsyncStorage();
-    if (!storage) return;
-    await storage.clear();
+  isDegraded(): boolean {
+    return this.fallbackToMemory && !this.isAvailable();
   }
 
   /**
-   * Get all keys currently stored in AsyncStorage.
+   * Subscribe to changes of a key, or of every key matching a pattern.
    *
-   * @returns An array of all storage keys, or an empty array if unavailable.
+   * Changes made through any `RNStorage`-backed instance on the same
+   * backend are reported, not only those made through this one. Keys and patterns are relative to this
+   * instance's namespace; a full `clear()` of the keyspace is always reported.
+   *
+   * @param keyOrPattern - An exact key, or a `RegExp` tested against keys.
+   * @param listener - Function invoked with a `StorageChangeEvent` on each change.
+   * @returns An unsubscribe function to remove the listener.
    *
    * @example
    * ```ts
-   * const keys = await storage.getAllKeys(); // ['theme', 'user']
+   * const unsub = storage.subscribe(/^settings:/, ({ type, key }) => {
+   *   console.log(type, key);
+   * });
+   * // Later: unsub();
    * ```
    */
-  async getAllKeys(): Promise<string[]> {
-    const storage = getAsyncStorage();
-    if (!storage) return [];
-    const keys = await storage.getAllKeys();
-    return [...keys];
+  subscribe(
+    keyOrPattern: string | RegExp,
+    listener: StorageChangeListener
+  ): () => void {
+    const handler: StorageChangeHandler = (type, fullKey, backend) => {
+      if (backend !== this.backend) return;
+      if (fullKey === null) {
+        listener({ type, key: null });
+        return;
+      }
+      if (!fullKey.startsWith(this.prefix)) return;
+      const key = fullKey.slice(this.prefix.length);
+      if (typeof keyOrPattern === 'string') {
+        if (key === keyOrPattern) listener({ type, key });
+        return;
+      }
+      // `g` and `y` regexes resume from `lastIndex`: always match from the start
+      keyOrPattern.lastIndex = 0;
+      if (keyOrPattern.test(key)) listener({ type, key });
+    };
+    changeHandlers.add(handler);
+    return () => {
+      changeHandlers.delete(handler);
+    };
   }
 
   /**
-   * Dispose of the storage instance and reset the cached native module.
+   * Run a task while holding the in-process lock for a key.
    *
-   * After calling dispose, subsequent operations will attempt to re-load
-   * the native module on next use.
+   * Tasks locking the same key through any instance on the same backend
+   * run one at a time, in call order. Used by `update()` and
+   * `compareAndSet()` to make read-modify-write cycles atomic.
+   *
+   * @param key - The storage key to lock.
+   * @param task - The work to run exclusively.
+   * @returns The task's result.
+   *
+   * @example
+   * ```ts
+   * await storage.withLock('counter', async () => {
+   *   const count = Number((await storage.getItem('counter')) ?? 0);
+   *   await storage.setItem('counter', String(count + 1));
+   * });
+   * ```
    */
-  dispose(): void {
-    // No native listeners to clean up, but reset the cached module
-    // so it can be re-initialized if needed.
-    AsyncStorageModule = null;
-  }
-}
-
-/**
- * Storage wrapper that includes value metadata (timestamp, TTL).
- */
-interface StoredValue {
-  value: string;
-  timestamp: number;
-  ttl?: number | undefined;
-}
-
-/**
- * Advanced React Native storage with TTL support and pattern matching.
- *
- * Wraps `RNStorage` and adds time-to-live (TTL) expiration and regex
- * pattern-based key clearing. Implements `AdvancedPlatformStorage` from
- * `@sudobility/di/interfaces`.
- *
- * @example
- * ```ts
- * const advStorage = new AdvancedRNStorage();
- * await advStorage.setItem('cache:data', 'value', 60000); // 60s TTL
- * const data = await advStorage.getItem('cache:data'); // null after 60s
- * await advStorage.clearPattern('^cache:'); // remove all cache keys
- * ```
- */
-export class AdvancedRNStorage implements AdvancedPlatformStorage {
-  private storage: RNStorage;
-
-  constructor() {
-    this.storage = new RNStorage();
+  withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    return getLocks(this.backend).run(this.prefix + key, task);
   }
 
   /**
-   * Store a value with optional TTL (time-to-live).
+   * Store a key-value pair in AsyncStorage.
    *
    * @param key - The storage key.
    * @param value - The string value to store.
-   * @param ttl - Optional TTL in milliseconds. If not provided, the value never expires.
+   * @param options - Optional write options.
    * @throws Error if AsyncStorage is not available.
    *
    * @example
    * ```ts
-   * await advStorage.setItem('token', 'abc123', 3600000); // 1 hour TTL
+   * await storage.setItem('theme', 'dark');
    * ```
    */
   async setItem(
     key: string,
     value: string,
-    ttl?: Optional<number>
+    options: RNStorageWriteOptions = {}
   ): Promise<void> {
-    const storedValue: StoredValue = {
-      value,
-      timestamp: Date.now(),
-      ttl: ttl ?? undefined,
-    };
-    await this.storage.setItem(key, JSON.stringify(storedValue));
+    const storage = this.getBackend();
+    if (!storage) throw new Error('AsyncStorage not available');
+    const staleChunks = await this.findChunkKeys(storage, [this.prefix + key]);
+    const rows = this.toRows(this.prefix + key, value);
+    if (rows.length === 1) {
+      await storage.setItem(this.prefix + key, value);
+    } else {
+      await this.writeRows(storage, rows);
+    }
+    if (staleChunks.length > 0) await storage.multiRemove(staleChunks);
+    this.cache?.set(this.prefix + key, value);
+    if (!options.silent) emitChange('set', this.prefix + key, this.backend);
   }
 
   /**
-   * Retrieve a value, returning `null` if it has expired or does not exist.
+   * Retrieve a value from AsyncStorage by key.
    *
    * @param key - The storage key.
-   * @returns The stored value, or `null` if missing or expired.
+   * @returns The stored value, or `null` if the key does not exist or AsyncStorage is unavailable.
+   * @throws StorageChunkError if a chunked value is incomplete or corrupt.
    *
    * @example
    * ```ts
-   * const token = await advStorage.getItem('token'); // null if expired
+   * const theme = await storage.getItem('theme'); // 'dark' or null
    * ```
    */
   async getItem(key: string): Promise<Optional<string>> {
-    const raw = await this.storage.getItem(key);
-    if (!raw) return null;
+    const cached = this.cache?.get(this.prefix + key);
+    if (cached !== undefined) return cached;
 
-    try {
-      const stored = JSON.parse(raw) as StoredValue;
-
-      // Check TTL expiration
-      if (stored.ttl !== undefined) {
-        const elapsed = Date.now() - stored.timestamp;
-        if (elapsed > stored.ttl) {
-          await this.removeItem(key);
-          return null;
-        }
-      }
-
-      return stored.value;
-    } catch {
-      // If parsing fails, return raw value (backward compatibility)
-      return raw;
-    }
+    const storage = this.getBackend();
+    if (!storage) return null;
+    // A write landing while the backend read is in flight wins over it
+    const generation = this.cache?.generation(this.prefix + key) ?? 0;
+    const raw = await storage.getItem(this.prefix + key);
+    if (raw == null) return null;
+    const value = await this.resolveChunks(storage, this.prefix + key, raw);
+    this.cache?.fill(this.prefix + key, value, generation);
+    return value;
   }
 
   /**
-   * Remove a key-value pair.
+   * Remove a key-value pair from AsyncStorage.
    *
    * @param key - The storage key to remove.
+   *
+   * @example
+   * ```ts
+   * await storage.removeItem('theme');
+   * ```
    */
   async removeItem(key: string): Promise<void> {
-    await this.storage.removeItem(key);
+    await this.removeValue(key);
   }
 
-  /**
-   * Clear all stored data.
-   */
-  async clear(): Promise<void> {
-    await this.storage.clear();
+  /** Untimed `removeItem()`. */
+  private async removeValue(key: string): Promise<void> {
+    const storage = this.getBackend();
+    if (!storage) return;
+    const chunkKeys = await this.findChunkKeys(storage, [this.prefix + key]);
+    await storage.removeItem(this.prefix + key);
+    if (chunkKeys.length > 0) await storage.multiRemove(chunkKeys);
+    this.cache?.delete(this.prefix + key);
+    emitChange('remove', this.prefix + key, this.backend);
   }
 
   /**
-   * Get all keys currently stored.
+   * Remove several key-value pairs in a single native call.
    *
-   * @returns An array of all storage keys.
+   * @param keys - The storage keys to remove.
+   *
+   * @example
+   * ```ts
+   * await storage.multiRemove(['theme', 'user']);
+   * ```
    */
-  async getAllKeys(): Promise<string[]> {
-    return this.storage.getAllKeys();
+  async multiRemove(keys: string[]): Promise<void> {
+    await this.removeValues(keys);
+  }
+
+  /** Untimed `multiRemove()`. */
+  private async removeValues(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const storage = this.getBackend();
+    if (!storage) return;
+    const fullKeys = keys.map((key) => this.prefix + key);
+    const chunkKeys = await this.findChunkKeys(storage, fullKeys);
+    await storage.multiRemove([...fullKeys, ...chunkKeys]);
+    this.invalidate(keys);
+    keys.forEach((key) =>
+      emitChange('remove', this.prefix + key, this.backend)
+    );
   }
 
   /**
-   * Check if a key exists and has not expired.
+   * Retrieve several values in a single native call.
    *
-   * @param key - The storage key.
-   * @returns `true` if the key exists and its value has not expired.
+   * Falls back to parallel `getItem` calls when the backend has no `multiGet`.
+   *
+   * @param keys - The storage keys to read.
+   * @returns `[key, value]` pairs in the order of `keys`; missing values are `null`.
+   * @throws StorageChunkError if a chunked value is incomplete or corrupt.
+   *
+   * @example
+   * ```ts
+   * const pairs = await storage.multiGet(['theme', 'locale']);
+   * const settings = Object.fromEntries(pairs);
+   * ```
+   */
+  async multiGet(keys: string[]): Promise<[string, Optional<string>][]> {
+    return this.readValues(keys);
+  }
+
+  /** Untimed `multiGet()`. */
+  private async readValues(
+    keys: string[]
+  ): Promise<[string, Optional<string>][]> {
+    if (keys.length === 0) return [];
+
+    // Values keyed by full (prefixed) key
+    const values = new Map<string, string | null>();
+    const missing: string[] = [];
+    for (const key of keys) {
+      const cached = this.cache?.get(this.prefix + key);
+      if (cached !== undefined) {
+        values.set(this.prefix + key, cached);
+      } else {
+        missing.push(this.prefix + key);
+      }
+    }
+
+    const storage = this.getBackend();
+    if (storage && missing.length > 0) {
+      const generations = new Map(
+        missing.map((key) => [key, this.cache?.generation(key) ?? 0])
+      );
+      for (const [key, raw] of await this.readRows(storage, missing)) {
+        const value =
+          raw == null ? null : await this.resolveChunks(storage, key, raw);
+        values.set(key, value);
+        if (value != null) {
+          this.cache?.fill(key, value, generations.get(key) ?? 0);
+        }
+      }
+    }
+
+    return keys.map((key) => [key, values.get(this.prefix + key) ?? null]);
+  }
+
+  /**
+   * Store several key-value pairs in a single native call.
+   *
+   * Falls back to parallel `setItem` calls when the backend has no `multiSet`.
+   *
+   * @param keyValuePairs - The `[key, value]` pairs to store.
+   * @throws Error if AsyncStorage is not available.
+   *
+   * @example
+   * ```ts
+   * await storage.multiSet([['theme', 'dark'], ['locale', 'en']]);
+   * ```
+   */
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    await this.writeValues(keyValuePairs);
+  }
+
+  /** Untimed `multiSet()`. */
+  private async writeValues(keyValuePairs: [string, string][]): Promise<void> {
+    if (keyValuePairs.length === 0) return;
+    const storage = this.getBackend();
+    if (!storage) throw new Error('AsyncStorage not available');
+
+    const prefixed = keyValuePairs.map(([key, value]): [string, string] => [
+      this.prefix + key,
+      value,
+    ]);
+    const staleChunks = await this.findChunkKeys(
+      storage,
+      prefixed.map(([key]) => key)
+    );
+    await this.writeRows(
+      storage,
+      prefixed.flatMap(([key, value]) => this.toRows(key, value))
+    );
+    if (staleChunks.length > 0) await storage.multiRemove(staleChunks);
+    prefixed.forEach(([key, value]) => {
+      this.cache?.set(key, value);
+      emitChange('set', key, this.backend);
+    });
+  }
+
+  /**
+   * Deep-merge JSON values into existing JSON values in a single native call.
+   *
+   * Nested objects are merged key by key; other values are replaced. Falls
+   * back to `mergeItem`, then to read-merge-write, when the backend lacks
+   * the batch API. With chunking enabled, read-merge-write is always used.
+   *
+   * @param keyValuePairs - The `[key, jsonPatch]` pairs to merge.
+   * @throws Error if AsyncStorage is not available.
+   * @throws SyntaxError if a patch is not valid JSON (fallback path only).
+   *
+   * @example
+   * ```ts
+   * await storage.multiMerge([['settings', '{"notifications":{"email":false}}']]);
+   * ```
+   */
+  async multiMerge(keyValuePairs: [string, string][]): Promise<void> {
+    if (keyValuePairs.length === 0) return;
+    const storage = this.getBackend();
+    if (!storage) throw new Error('AsyncStorage not available');
+
+    const prefixed = keyValuePairs.map(([key, value]): [string, string] => [
+      this.prefix + key,
+      value,
+    ]);
+    // The native merge result is not known here, so drop cached values.
+    // Native merges cannot see through chunk manifests.
+    if (storage.multiMerge && !this.chunking) {
+      await storage.multiMerge(prefixed);
+      this.invalidate(keyValuePairs.map(([key]) => key));
+      prefixed.forEach(([key]) => emitChange('set', key, this.backend));
+      return;
+    }
+    const mergeItem = this.chunking
+      ? undefined
+      : storage.mergeItem?.bind(storage);
+    if (mergeItem) {
+      await Promise.all(prefixed.map(([key, value]) => mergeItem(key, value)));
+      this.invalidate(keyValuePairs.map(([key]) => key));
+      prefixed.forEach(([key]) => emitChange('set', key, this.backend));
+      return;
+    }
+
+    const current = await this.readValues(keyValuePairs.map(([key]) => key));
+    await this.writeValues(
+      keyValuePairs.map(([key, patch], i): [string, string] => [
+        key,
+        mergeJsonStrings(current[i]?.[1] ?? null, patch),
+      ])
+    );
+  }
+
+  /**
+   * Clear all data from AsyncStorage, or only this instance's namespace
+   * when it is scoped.
+   *
+   * @example
+   * ```ts
+   * await storage.clear();
+   * ```
+   */
+  async clear(): Promise<void> {
+    const storage = this.getBackend();
+    if (!storage) return;
+    if (!this.prefix) {
+      await storage.clear();
+      chunkRowsPresent.set(storage, false);
+      this.cache?.clear();
+      emitChange('clear', null, this.backend);
+      return;
+    }
+
+    // Chunk keys are removed with the rest of the namespace
+    const fullKeys = (await storage.getAllKeys()).filter((key) =>
+      key.startsWith(this.prefix)
+    );
+    if (fullKeys.length === 0) return;
+    await storage.multiRemove(fullKeys);
+    const keys = fullKeys
+      .filter((key) => !isChunkKey(key))
+      .map((key) => key.slice(this.prefix.length));
+    this.invalidate(keys);
+    keys.forEach((key) =>
+      emitChange('remove', this.prefix + key, this.backend)
+    );
+  }
+
+  /**
+   * Get all keys currently stored in AsyncStorage.
+   *
+   * For a scoped instance, only keys inside the namespace are returned,
+   * with the namespace prefix stripped. Chunk keys of chunked values and
+   * quarantine records are never returned.
+   *
+   * @returns An array of all storage keys, or an empty array if unavailable.
+   *
+   * @example
+   * ```ts
+   * const keys = await storage.getAllKeys(); // ['theme', 'user']
+   * ```
+   */
+  async getAllKeys(): Promise<string[]> {
+    return this.listKeys();
+  }
+
+  /** Untimed `getAllKeys()`. */
+  private async listKeys(): Promise<string[]> {
+    const storage = this.getBackend();
+    if (!storage) return [];
+    const keys = (await storage.getAllKeys()).filter(
+      (key) => !isChunkKey(key) && !isQuarantineKey(key)
+    );
+    if (!this.prefix) return keys;
+    return keys
+      .filter((key) => key.startsWith(this.prefix))
+      .map((key) => key.slice(this.prefix.length));
+  }
+
+  /**
+   * Report how much space the stored keys and values take.
+   *
+   * Reads every value (in batches), so avoid calling it on hot paths.
+   * For a scoped instance only keys inside the namespace are counted.
+   *
+   * @returns Total bytes, key count and per-prefix usage.
+   *
+   * @example
+   * ```ts
+   * const stats = await storage.getStorageStats();
+   * console.log(stats.totalBytes, stats.byPrefix['cache']);
+   * ```
+   */
+  async getStorageStats(): Promise<StorageStats> {
+    const stats: StorageStats = { totalBytes: 0, keyCount: 0, byPrefix: {} };
+    const keys = await this.listKeys();
+
+    for (let i = 0; i < keys.length; i += DEFAULT_SCAN_BATCH_SIZE) {
+      const pairs = await this.readValues(
+        keys.slice(i, i + DEFAULT_SCAN_BATCH_SIZE)
+      );
+      for (const [key, value] of pairs) {
+        if (value == null) continue;
+        const bytes = utf8ByteLength(this.prefix + key) + utf8ByteLength(value);
+        const separatorIndex = key.indexOf(NAMESPACE_SEPARATOR);
+        const prefix = separatorIndex < 0 ? '' : key.slice(0, separatorIndex);
+        const usage = stats.byPrefix[prefix] ?? { bytes: 0, keyCount: 0 };
+        usage.bytes += bytes;
+        usage.keyCount++;
+        stats.byPrefix[prefix] = usage;
+        stats.totalBytes += bytes;
+        stats.keyCount++;
+      }
+    }
+    return stats;
+  }
+
+  /**
+   * Export stored keys and values as a versioned, checksummed document.
+   *
+   * Values are exported as stored, so TTL envelopes and encrypted values
+   * restore unchanged. Expired TTL entries are skipped. For a scoped
+   * instance only keys inside the namespace are exported, relative to it.
+   *
+   * @param options - Optional include/exclude key patterns.
+   * @returns A JSON-serializable `StorageSnapshot`.
+   *
+   * @example
+   * ```ts
+   * const snapshot = await storage.exportSnapshot({ exclude: [/^auth:/] });
+   * await share(JSON.stringify(snapshot));
+   * ```
+   */
+  async exportSnapshot(
+    options: StorageSnapshotOptions = {}
+  ): Promise<StorageSnapshot> {
+    const keys = (await this.listKeys()).filter((key) =>
+      matchesSnapshotFilters(key, options)
+    );
+    const entries: StorageSnapshotEntry[] = [];
+
+    for (let i = 0; i < keys.length; i += DEFAULT_SCAN_BATCH_SIZE) {
+      const pairs = await this.readValues(
+        keys.slice(i, i + DEFAULT_SCAN_BATCH_SIZE)
+      );
+      for (const [key, value] of pairs) {
+        if (value == null) continue;
+        const stored = parseStoredValue(value);
+        if (stored && isExpired(stored)) continue;
+        const expiresAt = stored ? getExpiresAt(stored) : null;
+        entries.push(
+          expiresAt !== null ? { key, value, expiresAt } : { key, value }
+        );
+      }
+    }
+    return createSnapshot(entries, options);
+  }
+
+  /**
+   * Restore a snapshot produced by `exportSnapshot()`.
+   *
+   * The whole document is validated before anything is written. Entries
+   * that expired since the export are skipped. Keys are written relative
+   * to this instance's namespace.
+   *
+   * @param snapshot - The snapshot document (e.g. parsed from JSON).
+   * @param options - `mode: 'merge'` (default) keeps other keys;
+   *   `'replace'` first removes the keys (in this namespace) matching the
+   *   snapshot's export filters.
+   * @returns The number of entries written.
+   * @throws StorageSnapshotError if the document is malformed, of an
+   *   unsupported version, or fails its checksum.
+   *
+   * @example
+   * ```ts
+   * await storage.importSnapshot(JSON.parse(text), { mode: 'replace' });
+   * ```
+   */
+  async importSnapshot(
+    snapshot: unknown,
+    options: StorageImportOptions = {}
+  ): Promise<number> {
+    const validated = validateSnapshot(snapshot);
+    const now = Date.now();
+    const live = validated.entries.filter(
+      (entry) => entry.expiresAt === undefined || entry.expiresAt > now
+    );
+
+    if (options.mode === 'replace') {
+      // Never wipe the whole backend: only keys the snapshot covers
+      const filters = getSnapshotFilters(validated);
+      await this.removeValues(
+        (await this.listKeys()).filter((key) =>
+          matchesSnapshotFilters(key, filters)
+        )
+      );
+    }
+    await this.writeValues(live.map((entry) => [entry.key, entry.value]));
+    return live.length;
+  }
+
+  /**
+   * Move a corrupt entry into quarantine and report it through the logger.
+   *
+   * The raw value is kept in a quarantine record (see
+   * `getQuarantinedEntries()`) and the key is removed, so readers see it as
+   * missing. Called by `AdvancedRNStorage` and `RNSerializedStorageService`
+   * when a value cannot be decoded.
+   *
+   * @param key - The corrupt key.
+   * @param error - Why the value is corrupt.
+   * @returns The quarantine record, or `null` if the key holds no value.
+   *
+   * @example
+   * ```ts
+   * await storage.quarantine('settings', new Error('Unexpected end of JSON'));
+   * ```
+   */
+  async quarantine(
+    key: string,
+    error: unknown
+  ): Promise<QuarantinedEntry | null> {
+    const storage = this.getBackend();
+    if (!storage) return null;
+    const raw = await storage.getItem(this.prefix + key);
+    if (raw == null) return null;
+
+    const entry: QuarantinedEntry = {
+      key: this.prefix + key,
+      value: raw,
+      error: error instanceof Error ? error.message : String(error),
+      quarantinedAt: Date.now(),
+    };
+    await this.writeRows(
+      storage,
+      this.toRows(QUARANTINE_PREFIX + entry.key, JSON.stringify(entry))
+    );
+    await this.removeValue(key);
+    getLogger()
+      .child('Storage')
+      .error(`Quarantined corrupt entry "${entry.key}": ${entry.error}`);
+    return entry;
+  }
+
+  /**
+   * List quarantined entries, for support diagnostics.
+   *
+   * Quarantine is shared by every namespace of a backend, so a scoped
+   * instance lists all records; their `key` is the full key.
+   *
+   * @returns The quarantine records, oldest first.
+   */
+  async getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+    const storage = this.getBackend();
+    if (!storage) return [];
+    const keys = (await storage.getAllKeys()).filter(
+      (key) => isQuarantineKey(key) && !isChunkKey(key)
+    );
+
+    const entries: QuarantinedEntry[] = [];
+    for (let i = 0; i < keys.length; i += DEFAULT_SCAN_BATCH_SIZE) {
+      const batch = keys.slice(i, i + DEFAULT_SCAN_BATCH_SIZE);
+      for (const [key, raw] of await this.readRows(storage, batch)) {
+        if (raw == null) continue;
+        const entry = parseQuarantinedEntry(
+          await this.resolveChunks(storage, key, raw)
+        );
+        if (entry) entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+  }
+
+  /**
+   * Read one quarantine record.
+   *
+   * @param key - The full key, as reported by `getQuarantinedEntries()`.
+   * @returns The record, or `null` if the key is not quarantined.
+   */
+  async getQuarantinedEntry(key: string): Promise<QuarantinedEntry | null> {
+    const storage = this.getBackend();
+    if (!storage) return null;
+    const raw = await storage.getItem(QUARANTINE_PREFIX + key);
+    if (raw == null) return null;
+    return parseQuarantinedEntry(
+      await this.resolveChunks(storage, QUARANTINE_PREFIX + key, raw)
+    );
+  }
+
+  /**
+   * Delete quarantine records.
+   *
+   * @param keys - Full keys of the records to delete. Defaults to every record.
+   * @returns The number of records deleted.
+   *
+   * @example
+   * ```ts
+   * await storage.purgeQuarantine(); // after the report was sent
+   * ```
+   */
+  async purgeQuarantine(keys?: string[]): Promise<number> {
+    const storage = this.getBackend();
+    if (!storage) return 0;
+    const records = keys?.map((key) => QUARANTINE_PREFIX + key);
+    const stored = (await storage.getAllKeys()).filter(isQuarantineKey);
+    const toRemove = records
+      ? stored.filter((key) =>
+          records.some((record) => key === record || isChunkKeyOf(key, record))
+        )
+      : stored;
+    if (toRemove.length === 0) return 0;
+    await storage.multiRemove(toRemove);
+    return toRemove.filter((key) => !isChunkKey(key)).length;
+  }
+
+  /**
+   * Dispose of the storage instance and reset the cached native module.
+   *
+   * After calling dispose, subsequent operations will attempt to re-load
+   * the native module on next use.
+   */
+  dispose(): void {
+    // No native listeners to clean up, but reset the cached module
+    // so it can be re-initialized if needed.
+    if (!this.backend) {
+      AsyncStorageModule = null;
+      asyncStorageLoadFailed = false;
+    }
+    this.cache?.clear();
+  }
+
+  /**
+   * Read rows by full key in one native call, or per key when the backend
+   * has no `multiGet`.
+   */
+  private async readRows(
+    storage: AsyncStorageStatic,
+    fullKeys: string[]
+  ): Promise<readonly [string, string | null][]> {
+    if (storage.multiGet) return storage.multiGet(fullKeys);
+    return Promise.all(
+      fullKeys.map(
+        async (key): Promise<[string, string | null]> => [
+          key,
+          await storage.getItem(key),
+        ]
+      )
+    );
+  }
+
+  /**
+   * Write rows by full key in one native call, or per key when the backend
+   * has no `multiSet`.
+   */
+  private async writeRows(
+    storage: AsyncStorageStatic,
+    rows: [string, string][]
+  ): Promise<void> {
+    if (rows.some(([key]) => isChunkKey(key))) {
+      chunkRowsPresent.set(storage, true);
+    }
+    if (storage.multiSet) {
+      await storage.multiSet(rows);
+    } else {
+      await Promise.all(
+        rows.map(([key, value]) => storage.setItem(key, value))
+      );
+    }
+  }
+
+  /**
+   * Rows to write for a value: the value itself, or its chunks followed by
+   * the manifest when chunking is enabled and the value is too large.
+   */
+  private toRows(fullKey: string, value: string): [string, string][] {
+    const chunked =
+      this.maxValueBytes === null
+        ? null
+        : splitIntoChunks(fullKey, value, this.maxValueBytes);
+    return chunked ?? [[fullKey, value]];
+  }
+
+  /**
+   * Return a stored row's value, reassembling it if the row is a chunk manifest.
+   */
+  private async resolveChunks(
+    storage: AsyncStorageStatic,
+    fullKey: string,
+    raw: string
+  ): Promise<string> {
+    const manifest = parseChunkManifest(raw);
+    if (!manifest) return raw;
+    const chunkKeys = getChunkKeys(fullKey, manifest);
+    const chunks = new Map(await this.readRows(storage, chunkKeys));
+    return joinChunks(
+      fullKey.slice(this.prefix.length),
+      manifest,
+      chunkKeys.map((key) => chunks.get(key))
+    );
+  }
+
+  /**
+   * Chunk keys currently referenced by the manifests stored under the given
+   * keys, so they can be removed when those keys are overwritten or removed.
+   * Looked up with or without chunking enabled, since another instance may
+   * have chunked the value; skipped while the backend holds no chunk rows.
+   */
+  private async findChunkKeys(
+    storage: AsyncStorageStatic,
+    fullKeys: string[]
+  ): Promise<string[]> {
+    if (fullKeys.length === 0 || !(await this.hasChunkRows(storage))) {
+      return [];
+    }
+    const chunkKeys: string[] = [];
+    for (const [key, raw] of await this.readRows(storage, fullKeys)) {
+      const manifest: ChunkManifest | null = raw
+        ? parseChunkManifest(raw)
+        : null;
+      if (manifest) chunkKeys.push(...getChunkKeys(key, manifest));
+    }
+    return chunkKeys;
+  }
+
+  /**
+   * Whether the backend may hold chunk rows. Its keys are scanned the first
+   * time this is asked; chunk writes keep the answer current after that.
+   */
+  private async hasChunkRows(storage: AsyncStorageStatic): Promise<boolean> {
+    if (!chunkRowsPresent.has(storage)) {
+      const found = (await storage.getAllKeys()).some(isChunkKey);
+      // A chunk write during the scan has already recorded `true`
+      if (!chunkRowsPresent.has(storage)) chunkRowsPresent.set(storage, found);
+    }
+    return chunkRowsPresent.get(storage) === true;
+  }
+
+  /**
+   * The injected backend, the lazily loaded AsyncStorage module, or the
+   * in-memory fallback when AsyncStorage is missing and the fallback is enabled.
+   */
+  private getBackend(): AsyncStorageStatic | null {
+    if (this.backend) return this.backend;
+    const asyncStorage = getAsyncStorage();
+    if (asyncStorage || !this.fallbackToMemory) return asyncStorage;
+    return getDegradedBackend();
+  }
+
+  private invalidate(keys: string[]): void {
+    keys.forEach((key) => this.cache?.delete(this.prefix + key));
+  }
+}
+
+/**
+ * Storage wrapper that includes value metadata (timestamp, TTL).
+ */
+interface StoredValue {
+  value: string;
+  timestamp: number;
+  ttl?: number | undefined;
+  /** Cipher key version that sealed `value`; absent for plaintext values. */
+  kv?: number | undefined;
+  /** Whether reads restart the TTL. */
+  sliding?: boolean | undefined;
+  /** Last read of a sliding entry; its TTL counts from here instead of `timestamp`. */
+  accessedAt?: number | undefined;
+}
+
+/**
+ * Parse a raw stored string into a `StoredValue` envelope.
+ *
+ * @param raw - The raw string read from storage.
+ * @returns The envelope, or `null` if the string is not a `StoredValue`
+ *   (e.g. a plain value written through `RNStorage`).
+ */
+function parseStoredValue(raw: string): StoredValue | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null;
+  const candidate = parsed as Record<string, unknown>;
+  if (
+    typeof candidate.value !== 'string' ||
+    typeof candidate.timestamp !== 'number'
+  ) {
+    return null;
+  }
+  return parsed as StoredValue;
+}
+
+/**
+ * Check whether a stored value's TTL has elapsed.
+ */
+function isExpired(stored: StoredValue): boolean {
+  const expiresAt = getExpiresAt(stored);
+  return expiresAt !== null && Date.now() > expiresAt;
+}
+
+/**
+ * When a stored value expires (ms since epoch), or `null` if it has no TTL.
+ */
+function getExpiresAt(stored: StoredValue): number | null {
+  if (stored.ttl === undefined) return null;
+  return (stored.accessedAt ?? stored.timestamp) + stored.ttl;
+}
+
+/**
+ * Options for `AdvancedRNStorage.setItem` and related writes.
+ */
+export interface AdvancedSetOptions {
+  /**
+   * Sliding expiration: every read restarts the TTL, so the entry only
+   * expires after `ttl` milliseconds without being read (e.g. sessions).
+   * `hasItem` does not count as a read.
+   */
+  sliding?: boolean;
+}
+
+/**
+ * Value read with `AdvancedRNStorage.getItemWithMetadata`.
+ *
+ * Values that were not written through `AdvancedRNStorage` have no
+ * metadata: their times are `null`.
+ */
+export interface StoredItemWithMetadata {
+  value: string;
+  /** When the value was written (ms since epoch). */
+  writtenAt: number | null;
+  /** When the value expires (ms since epoch); `null` if it has no TTL. */
+  expiresAt: number | null;
+  /** Milliseconds until expiry; `null` if it has no TTL. */
+  remainingTtl: number | null;
+  /** Whether reads restart the TTL. */
+  sliding: boolean;
+}
+
+/**
+ * Options for `AdvancedRNStorage.clearPattern`.
+ */
+export interface ClearPatternOptions {
+  /** Only remove matching entries whose TTL (sliding or not) has elapsed. */
+  expiredOnly?: boolean;
+}
+
+/**
+ * Result of an expired-entry sweep.
+ */
+export interface ExpirySweepResult {
+  /** Number of keys inspected. */
+  scanned: number;
+  /** Number of expired entries removed. */
+  removed: number;
+  /** UTF-8 bytes (keys + values) freed by the removed entries. */
+  reclaimedBytes: number;
+}
+
+/**
+ * Options for `AdvancedRNStorage.startExpirySweeper`.
+ */
+export interface ExpirySweeperOptions {
+  /** Interval between sweeps in milliseconds. If omitted, only the startup sweep runs. */
+  intervalMs?: number;
+  /** Run a sweep immediately when started. Defaults to `true`. */
+  runOnStart?: boolean;
+  /** Keys read per batch. Defaults to 100. */
+  batchSize?: number;
+  /** Called after every successful sweep. */
+  onSweep?: (result: ExpirySweepResult) => void;
+  /** Called when a sweep fails. Defaults to `console.warn`. */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Storage budget for `AdvancedRNStorage`.
+ */
+export interface StorageBudgetOptions {
+  /** Maximum UTF-8 bytes (keys + values) for the keys visible to the storage instance. */
+  maxBytes: number;
+  /**
+   * Order in which entries are evicted when a write would exceed the budget:
+   * least recently read or written (`'lru'`, the default) or oldest written
+   * (`'oldest'`). Expired entries are always evicted first.
+   */
+  evictionPolicy?: 'lru' | 'oldest';
+  /** Key prefixes (relative to the namespace) that are never evicted. */
+  protectedPrefixes?: string[];
+}
+
+/**
+ * Error thrown when a write cannot fit in the storage budget even after
+ * evicting every evictable entry.
+ */
+export class StorageQuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public requiredBytes: number,
+    public maxBytes: number
+  ) {
+    super(message);
+    this.name = 'StorageQuotaExceededError';
+  }
+}
+
+/** Tracked size of one stored entry, for budget enforcement. */
+interface UsageEntry {
+  bytes: number;
+  /** Write time from the `StoredValue` envelope; `null` for non-envelope values. */
+  timestamp: number | null;
+  expired: boolean;
+}
+
+/**
+ * Entry for `AdvancedRNStorage.multiSet`: key, value and optional TTL in milliseconds.
+ */
+export type AdvancedStorageEntry = [
+  key: string,
+  value: string,
+  ttl?: Optional<number>,
+];
+
+/**
+ * Options for constructing an `AdvancedRNStorage`.
+ */
+export interface AdvancedRNStorageOptions extends RNStorageOptions {
+  /**
+   * Cipher used to encrypt values at rest. When omitted, values are stored
+   * as plaintext. Reading an encrypted value without a cipher throws.
+   */
+  cipher?: StorageCipher | undefined;
+  /**
+   * Size budget. When a write would exceed it, entries are evicted
+   * according to the budget's policy. Only values written through
+   * `AdvancedRNStorage` (TTL envelopes) are ever evicted.
+   */
+  budget?: StorageBudgetOptions | undefined;
+}
+
+/**
+ * Advanced React Native storage with TTL support and pattern matching.
+ *
+ * Wraps `RNStorage` and adds time-to-live (TTL) expiration and regex
+ * pattern-based key clearing. Implements `AdvancedPlatformStorage` from
+ * `@sudobility/di/interfaces`.
+ *
+ * @example
+ * ```ts
+ * const advStorage = new AdvancedRNStorage();
+ * await advStorage.setItem('cache:data', 'value', 60000); // 60s TTL
+ * const data = await advStorage.getItem('cache:data'); // null after 60s
+ * await advStorage.clearPattern('^cache:'); // remove all cache keys
+ *
+ * // Per-account view; clearPattern() only touches account:42:* keys
+ * await advStorage.scope('account:42').clearPattern();
+ * ```
+ */
+export class AdvancedRNStorage implements AdvancedPlatformStorage {
+  private storage: RNStorage;
+  private cipher: StorageCipher | undefined;
+  private sweepIntervalId: ReturnType<typeof setInterval> | null = null;
+  private budget: StorageBudgetOptions | undefined;
+  // Budget bookkeeping: sizes per key, keys changed since last measured,
+  // and last read/write time per key (for LRU eviction)
+  private usage: Map<string, UsageEntry> | null = null;
+  private staleKeys = new Set<string>();
+  private lastAccess = new Map<string, number>();
+  private unsubscribeUsage: (() => void) | null = null;
+  private instrumentation: StorageInstrumentationOptions | undefined;
+
+  /**
+   * Create a new AdvancedRNStorage.
+   *
+   * @param options - Optional storage options (key namespace, cipher,
+   *   budget, instrumentation).
+   */
+  constructor(options: AdvancedRNStorageOptions = {}) {
+    // Operations are timed at this level only, not again by the inner storage
+    this.storage = new RNStorage({ ...options, instrumentation: undefined });
+    this.cipher = options.cipher;
+    this.budget = options.budget;
+    this.instrumentation = resolveInstrumentation(options.instrumentation);
+    if (this.instrumentation) {
+      instrumentStorage(
+        this,
+        'AdvancedRNStorage',
+        ADVANCED_STORAGE_OPERATIONS,
+        this.instrumentation
+      );
+    }
+  }
+
+  /**
+   * Create a namespaced view of this storage.
+   *
+   * Keys, `getAllKeys`, `clear` and `clearPattern` of the returned storage
+   * are confined to the namespace; patterns match the unprefixed keys.
+   *
+   * @param namespace - The namespace to scope keys to.
+   * @returns A new `AdvancedRNStorage` confined to the namespace.
+   * @throws Error if `namespace` is empty.
+   *
+   * @example
+   * ```ts
+   * const account = advancedRNStorage.scope('account:42');
+   * await account.clearPattern('^cache:'); // removes account:42:cache:*
+   * ```
+   */
+  scope(namespace: string): AdvancedRNStorage {
+    const scoped = new AdvancedRNStorage({
+      cipher: this.cipher,
+      budget: this.budget,
+      instrumentation: this.instrumentation,
+    });
+    scoped.storage = this.storage.scope(namespace);
+    return scoped;
+  }
+
+  /**
+   * Get the read cache counters.
+   *
+   * Expired entries are never served from the cache: the TTL envelope is
+   * checked on every read, cached or not.
+   *
+   * @returns Hit/miss counters and size, or `null` if caching is disabled.
+   */
+  getCacheStats(): StorageCacheStats | null {
+    return this.storage.getCacheStats();
+  }
+
+  /**
+   * Subscribe to changes of a key, or of every key matching a pattern.
+   *
+   * Fires on `setItem`, `removeItem`, `clear`, `clearPattern` and when an
+   * expired entry is removed on read.
+   *
+   * @param keyOrPattern - An exact key, or a `RegExp` tested against keys.
+   * @param listener - Function invoked with a `StorageChangeEvent` on each change.
+   * @returns An unsubscribe function to remove the listener.
+   *
+   * @example
+   * ```ts
+   * const unsub = advStorage.subscribe('token', ({ type }) => {
+   *   if (type !== 'set') signOut();
+   * });
+   * ```
+   */
+  subscribe(
+    keyOrPattern: string | RegExp,
+    listener: StorageChangeListener
+  ): () => void {
+    return this.storage.subscribe(keyOrPattern, listener);
+  }
+
+  /**
+   * Store a value with optional TTL (time-to-live).
+   *
+   * When a cipher is configured, the value is encrypted and the envelope
+   * records the key version used.
+   *
+   * @param key - The storage key.
+   * @param value - The string value to store.
+   * @param ttl - Optional TTL in milliseconds. If not provided, the value never expires.
+   * @param options - Optional write options (sliding expiration).
+   * @throws Error if AsyncStorage is not available.
+   *
+   * @example
+   * ```ts
+   * await advStorage.setItem('token', 'abc123', 3600000); // 1 hour TTL
+   * await advStorage.setItem('session', id, 900000, { sliding: true }); // 15 min idle
+   * ```
+   */
+  async setItem(
+    key: string,
+    value: string,
+    ttl?: Optional<number>,
+    options: AdvancedSetOptions = {}
+  ): Promise<void> {
+    await this.storage.withLock(key, () =>
+      this.writeItem(key, value, ttl, options)
+    );
+  }
+
+  /**
+   * Atomically read, transform and write a value.
+   *
+   * Concurrent `update`, `compareAndSet`, `setItem`, `multiSet`,
+   * `multiMerge` and `removeItem` calls on the same key are serialized, so
+   * no update is lost.
+   *
+   * @param key - The storage key.
+   * @param updater - Receives the current value (`null` if missing or expired)
+   *   and returns the value to store.
+   * @param ttl - Optional TTL in milliseconds for the new value.
+   * @param options - Optional write options (sliding expiration).
+   * @returns The stored value.
+   *
+   * @example
+   * ```ts
+   * await advStorage.update('unread', (count) => String(Number(count ?? 0) + 1));
+   * ```
+   */
+  async update(
+    key: string,
+    updater: (current: Optional<string>) => string | Promise<string>,
+    ttl?: Optional<number>,
+    options: AdvancedSetOptions = {}
+  ): Promise<string> {
+    return this.storage.withLock(key, async () => {
+      const current = await this.readEntry(key, true);
+      const next = await updater(current?.value ?? null);
+      await this.writeItem(key, next, ttl, options);
+      return next;
+    });
+  }
+
+  /**
+   * Write a value only if the stored value is still `expected`.
+   *
+   * @param key - The storage key.
+   * @param expected - The value the caller last read (`null` for missing or expired).
+   * @param next - The value to store.
+   * @param ttl - Optional TTL in milliseconds for the new value.
+   * @param options - Optional write options (sliding expiration).
+   * @returns `true` if written; `false` if another write changed the value first.
+   *
+   * @example
+   * ```ts
+   * const draft = await advStorage.getItem('draft');
+   * if (!(await advStorage.compareAndSet('draft', draft, edited))) {
+   *   // Someone else saved first: reload and retry
+   * }
+   * ```
+   */
+  async compareAndSet(
+    key: string,
+    expected: Optional<string>,
+    next: string,
+    ttl?: Optional<number>,
+    options: AdvancedSetOptions = {}
+  ): Promise<boolean> {
+    return this.storage.withLock(key, async () => {
+      const current = await this.readEntry(key, true);
+      if ((current?.value ?? null) !== (expected ?? null)) return false;
+      await this.writeItem(key, next, ttl, options);
+      return true;
+    });
+  }
+
+  /**
+   * Retrieve a value, returning `null` if it has expired or does not exist.
+   *
+   * Reading a sliding entry restarts its TTL. Corrupt entries (values
+   * that start like JSON but do not parse, or malformed TTL envelopes) are
+   * moved to quarantine and read as missing.
+   *
+   * @param key - The storage key.
+   * @returns The stored value, or `null` if missing, expired or corrupt.
+   * @throws StorageEncryptionError if the value is encrypted and cannot be decrypted.
+   *
+   * @example
+   * ```ts
+   * const token = await advStorage.getItem('token'); // null if expired
+   * ```
+   */
+  async getItem(key: string): Promise<Optional<string>> {
+    const entry = await this.readEntry(key, false);
+    return entry?.value ?? null;
+  }
+
+  /**
+   * Retrieve a value together with its write time and expiry.
+   *
+   * Counts as a read: a sliding entry's TTL is restarted, and the returned
+   * expiry reflects that.
+   *
+   * @param key - The storage key.
+   * @returns The value and its metadata, or `null` if missing or expired.
+   * @throws StorageEncryptionError if the value is encrypted and cannot be decrypted.
+   *
+   * @example
+   * ```ts
+   * const entry = await advStorage.getItemWithMetadata('token');
+   * if (entry && entry.remainingTtl !== null && entry.remainingTtl < 60000) {
+   *   await refreshToken();
+   * }
+   * ```
+   */
+  async getItemWithMetadata(
+    key: string
+  ): Promise<StoredItemWithMetadata | null> {
+    return this.readEntry(key, false);
+  }
+
+  /**
+   * Retrieve several values in a single native call.
+   *
+   * Expired entries are returned as `null` and removed in one batch.
+   *
+   * @param keys - The storage keys to read.
+   * @returns `[key, value]` pairs in the order of `keys`.
+   * @throws StorageEncryptionError if an encrypted value cannot be decrypted.
+   *
+   * @example
+   * ```ts
+   * const pairs = await advStorage.multiGet(['cache:a', 'cache:b']);
+   * ```
+   */
+  async multiGet(keys: string[]): Promise<[string, Optional<string>][]> {
+    const pairs = await this.storage.multiGet(keys);
+    const expired: [string, string][] = [];
+
+    const result = await Promise.all(
+      pairs.map(async ([key, raw]): Promise<[string, Optional<string>]> => {
+        if (!raw) return [key, null];
+        const stored = parseStoredValue(raw);
+        if (!stored) {
+          const corruption = detectEnvelopeCorruption(raw);
+          if (!corruption) return [key, raw];
+          await this.storage.quarantine(key, corruption);
+          return [key, null];
+        }
+        if (isExpired(stored)) {
+          expired.push([key, raw]);
+          return [key, null];
+        }
+        if (stored.sliding) {
+          await this.storage.withLock(key, () =>
+            this.refreshSliding(key, stored)
+          );
+        }
+        this.touch(key);
+        return [key, await this.openValue(key, stored)];
+      })
+    );
+
+    await this.removeExpiredRows(expired);
+    return result;
+  }
+
+  /**
+   * Store several values, each with its own optional TTL, in a single native call.
+   *
+   * @param entries - `[key, value, ttl?]` entries to store.
+   * @throws Error if AsyncStorage is not available.
+   *
+   * @example
+   * ```ts
+   * await advStorage.multiSet([
+   *   ['cache:inbox', inboxJson, 60000],
+   *   ['lastSync', String(Date.now())],
+   * ]);
+   * ```
+   */
+  async multiSet(entries: AdvancedStorageEntry[]): Promise<void> {
+    const keys = entries.map(([key]) => key);
+    await this.withLocks(keys, async () => {
+      const pairs = await Promise.all(
+        entries.map(
+          async ([key, value, ttl]): Promise<[string, string]> => [
+            key,
+            await this.seal(value, ttl),
+          ]
+        )
+      );
+      await this.reserve(pairs);
+      await this.storage.multiSet(pairs);
+      pairs.forEach(([key]) => this.touch(key));
+    });
+  }
+
+  /**
+   * Deep-merge JSON values into the values stored under each key.
+   *
+   * Merging happens inside the TTL envelope, so the native merge API is not
+   * used. The entry's timestamp, TTL and sliding state are kept: a merge
+   * does not extend its lifetime. Missing or expired entries are created without a TTL.
+   *
+   * @param keyValuePairs - The `[key, jsonPatch]` pairs to merge.
+   * @throws SyntaxError if a patch is not valid JSON.
+   *
+   * @example
+   * ```ts
+   * await advStorage.multiMerge([['settings', '{"theme":"dark"}']]);
+   * ```
+   */
+  async multiMerge(keyValuePairs: [string, string][]): Promise<void> {
+    const keys = keyValuePairs.map(([key]) => key);
+    await this.withLocks(keys, async () => {
+      const current = new Map(await this.storage.multiGet(keys));
+
+      const pairs = await Promise.all(
+        keyValuePairs.map(async ([key, patch]): Promise<[string, string]> => {
+          const raw = current.get(key) ?? null;
+          const stored = raw ? parseStoredValue(raw) : null;
+          if (stored && !isExpired(stored)) {
+            const merged = mergeJsonStrings(
+              await this.openValue(key, stored),
+              patch
+            );
+            return [key, await this.seal(merged, stored.ttl, stored)];
+          }
+          // Legacy plain values are merged into; missing or expired entries start fresh
+          const base = stored ? null : raw;
+          return [key, await this.seal(mergeJsonStrings(base, patch))];
+        })
+      );
+      await this.reserve(pairs);
+      await this.storage.multiSet(pairs);
+      pairs.forEach(([key]) => this.touch(key));
+    });
+  }
+
+  /**
+   * Re-encrypt every stored value that is not sealed with the cipher's
+   * current key version, including plaintext values.
+   *
+   * Call this after bumping the cipher's key version to finish a key
+   * rotation. Timestamps and TTLs are preserved.
+   *
+   * @returns The number of values that were re-encrypted.
+   * @throws StorageEncryptionError if no cipher is configured.
+   *
+   * @example
+   * ```ts
+   * const rotated = await secureStorage.reencryptAll();
+   * ```
+   */
+  async reencryptAll(): Promise<number> {
+    const cipher = this.cipher;
+    if (!cipher) {
+      throw new StorageEncryptionError('No cipher configured');
+    }
+
+    let count = 0;
+    for (const key of await this.storage.getAllKeys()) {
+      // Locked so a concurrent write is not replaced by the re-sealed old value
+      const rotated = await this.storage.withLock(key, async () => {
+        const raw = await this.storage.getItem(key);
+        const stored = raw ? parseStoredValue(raw) : null;
+        if (!stored || stored.kv === cipher.keyVersion) return false;
+
+        const value = await this.openValue(key, stored);
+        stored.value = await cipher.encrypt(value);
+        stored.kv = cipher.keyVersion;
+        await this.storage.setItem(key, JSON.stringify(stored));
+        return true;
+      });
+      if (rotated) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Remove a key-value pair.
+   *
+   * @param key - The storage key to remove.
+   */
+  async removeItem(key: string): Promise<void> {
+    await this.storage.withLock(key, () => this.storage.removeItem(key));
+  }
+
+  /**
+   * Clear all stored data (only the namespace, when scoped).
+   */
+  async clear(): Promise<void> {
+    await this.storage.clear();
+  }
+
+  /**
+   * Get all keys currently stored (relative to the namespace, when scoped).
+   *
+   * @returns An array of all storage keys.
+   */
+  async getAllKeys(): Promise<string[]> {
+    return this.storage.getAllKeys();
+  }
+
+  /**
+   * Check if a key exists and has not expired.
+   *
+   * Does not count as a read: a sliding entry's TTL is not restarted, and
+   * encrypted values are not decrypted.
+   *
+   * @param key - The storage key.
+   * @returns `true` if the key exists and its value has not expired.
    *
    * @example
    * ```ts
@@ -312,47 +1985,533 @@ export class AdvancedRNStorage implements AdvancedPlatformStorage {
    * ```
    */
   async hasItem(key: string): Promise<boolean> {
-    const value = await this.getItem(key);
-    return value !== null;
+    const raw = await this.storage.getItem(key);
+    if (!raw) return false;
+    const stored = parseStoredValue(raw);
+    if (stored && isExpired(stored)) {
+      await this.storage.withLock(key, () => this.removeExpired(key, raw));
+      return false;
+    }
+    const corruption = stored ? null : detectEnvelopeCorruption(raw);
+    if (corruption) {
+      await this.storage.quarantine(key, corruption);
+      return false;
+    }
+    return true;
   }
 
   /**
    * Clear items matching a regex pattern, or all items if no pattern given.
    *
+   * When scoped, the pattern is matched against keys relative to the
+   * namespace and keys outside the namespace are never removed.
+   *
    * @param pattern - Optional regex pattern string. If omitted, clears all data.
+   * @param options - Set `expiredOnly` to remove only matching entries
+   *   whose TTL has elapsed (measured from the last read for sliding entries).
    *
    * @example
    * ```ts
    * await advStorage.clearPattern('^cache:'); // remove all cache:* keys
+   * await advStorage.clearPattern('^session:', { expiredOnly: true });
    * await advStorage.clearPattern(); // clear everything
    * ```
    */
-  async clearPattern(pattern?: Optional<string>): Promise<void> {
-    if (!pattern) {
-      await this.clear();
+  async clearPattern(
+    pattern?: Optional<string>,
+    options: ClearPatternOptions = {}
+  ): Promise<void> {
+    if (!pattern && !options.expiredOnly) {
+      await this.storage.clear();
+      return;
+    }
+
+    const keys = await this.storage.getAllKeys();
+    const regex = pattern ? new RegExp(pattern) : null;
+    const keysToRemove = regex ? keys.filter((key) => regex.test(key)) : keys;
+    if (!options.expiredOnly) {
+      await this.storage.multiRemove(keysToRemove);
       return;
     }
 
-    const keys = await this.getAllKeys();
-    const regex = new RegExp(pattern);
-    const keysToRemove = keys.filter((key) => regex.test(key));
+    const expired: [string, string][] = [];
+    for (const [key, raw] of await this.storage.multiGet(keysToRemove)) {
+      const stored = raw ? parseStoredValue(raw) : null;
+      if (raw && stored && isExpired(stored)) expired.push([key, raw]);
+    }
+    await this.removeExpiredRows(expired);
+  }
+
+  /**
+   * Remove every expired entry, without waiting for it to be read.
+   *
+   * Keys are read and removed in batches so large keyspaces do not need
+   * to be loaded into memory at once. Values that are not TTL envelopes
+   * are left alone.
+   *
+   * @param options - Optional batch size (defaults to 100 keys).
+   * @returns How many keys were scanned and removed, and the bytes reclaimed.
+   * @throws Error if `batchSize` is not a positive integer.
+   *
+   * @example
+   * ```ts
+   * const { removed, reclaimedBytes } = await advStorage.purgeExpired();
+   * ```
+   */
+  async purgeExpired(
+    options: { batchSize?: number | undefined } = {}
+  ): Promise<ExpirySweepResult> {
+    const batchSize = resolveBatchSize(options.batchSize);
+    const keys = await this.storage.getAllKeys();
+    const result: ExpirySweepResult = {
+      scanned: keys.length,
+      removed: 0,
+      reclaimedBytes: 0,
+    };
 
-    if (keysToRemove.length > 0) {
-      const storage = getAsyncStorage();
-      if (storage) {
-        await storage.multiRemove(keysToRemove);
+    for (let i = 0; i < keys.length; i += batchSize) {
+      const pairs = await this.storage.multiGet(keys.slice(i, i + batchSize));
+      const expired: [string, string][] = [];
+      for (const [key, raw] of pairs) {
+        const stored = raw ? parseStoredValue(raw) : null;
+        if (raw && stored && isExpired(stored)) expired.push([key, raw]);
       }
+      for (const [key, raw] of await this.removeExpiredRows(expired)) {
+        result.reclaimedBytes += utf8ByteLength(key) + utf8ByteLength(raw);
+        result.removed++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Start sweeping expired entries at startup and/or periodically.
+   *
+   * Starting a sweeper stops any sweeper previously started on this
+   * instance. `dispose()` also stops it.
+   *
+   * @param options - Interval, startup behaviour, batch size and callbacks.
+   * @returns A function that stops the sweeper.
+   * @throws Error if `batchSize` is not a positive integer.
+   *
+   * @example
+   * ```ts
+   * const stop = advancedRNStorage.startExpirySweeper({
+   *   intervalMs: 15 * 60 * 1000,
+   *   onSweep: ({ removed, reclaimedBytes }) =>
+   *     logger.info(`Purged ${removed} entries (${reclaimedBytes} bytes)`),
+   * });
+   * ```
+   */
+  startExpirySweeper(options: ExpirySweeperOptions = {}): () => void {
+    resolveBatchSize(options.batchSize);
+    this.stopExpirySweeper();
+
+    const sweep = () => {
+      this.purgeExpired({ batchSize: options.batchSize })
+        .then((result) => options.onSweep?.(result))
+        .catch((error: unknown) => {
+          if (options.onError) {
+            options.onError(error);
+          } else {
+            console.warn('Expired storage sweep failed:', error);
+          }
+        });
+    };
+
+    if (options.runOnStart ?? true) sweep();
+    if (options.intervalMs !== undefined && options.intervalMs > 0) {
+      this.sweepIntervalId = setInterval(sweep, options.intervalMs);
+    }
+    return () => this.stopExpirySweeper();
+  }
+
+  /**
+   * Stop the periodic expiry sweeper, if one is running.
+   */
+  stopExpirySweeper(): void {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
     }
   }
 
   /**
    * Dispose of the advanced storage instance and its underlying storage.
    *
-   * Delegates to `RNStorage.dispose()` to reset the cached native module.
+   * Stops the expiry sweeper and delegates to `RNStorage.dispose()` to
+   * reset the cached native module.
    */
   dispose(): void {
+    this.stopExpirySweeper();
+    this.unsubscribeUsage?.();
+    this.unsubscribeUsage = null;
+    this.usage = null;
     this.storage.dispose();
   }
+
+  /**
+   * Report how much space the stored keys and values take.
+   *
+   * @returns Total bytes, key count and per-prefix usage.
+   */
+  async getStorageStats(): Promise<StorageStats> {
+    return this.storage.getStorageStats();
+  }
+
+  /**
+   * Export stored keys and values as a versioned, checksummed document.
+   *
+   * @param options - Optional include/exclude key patterns.
+   * @returns A JSON-serializable `StorageSnapshot`.
+   */
+  async exportSnapshot(
+    options: StorageSnapshotOptions = {}
+  ): Promise<StorageSnapshot> {
+    return this.storage.exportSnapshot(options);
+  }
+
+  /**
+   * Restore a snapshot produced by `exportSnapshot()`, keeping TTLs.
+   *
+   * @param snapshot - The snapshot document (e.g. parsed from JSON).
+   * @param options - Import mode (`'merge'` by default, or `'replace'`).
+   * @returns The number of entries written.
+   * @throws StorageSnapshotError if the document is invalid.
+   */
+  async importSnapshot(
+    snapshot: unknown,
+    options: StorageImportOptions = {}
+  ): Promise<number> {
+    return this.storage.importSnapshot(snapshot, options);
+  }
+
+  /**
+   * List quarantined corrupt entries, for support diagnostics.
+   *
+   * @returns The quarantine records, oldest first.
+   */
+  async getQuarantinedEntries(): Promise<QuarantinedEntry[]> {
+    return this.storage.getQuarantinedEntries();
+  }
+
+  /**
+   * Read one quarantine record.
+   *
+   * @param key - The full key, as reported by `getQuarantinedEntries()`.
+   * @returns The record, or `null` if the key is not quarantined.
+   */
+  async getQuarantinedEntry(key: string): Promise<QuarantinedEntry | null> {
+    return this.storage.getQuarantinedEntry(key);
+  }
+
+  /**
+   * Delete quarantine records.
+   *
+   * @param keys - Full keys of the records to delete. Defaults to every record.
+   * @returns The number of records deleted.
+   */
+  async purgeQuarantine(keys?: string[]): Promise<number> {
+    return this.storage.purgeQuarantine(keys);
+  }
+
+  /**
+   * Read a value and its metadata, removing it if expired and restarting
+   * the TTL of sliding entries.
+   *
+   * @param lockHeld - Whether the caller already holds the key lock.
+   */
+  private async readEntry(
+    key: string,
+    lockHeld: boolean
+  ): Promise<StoredItemWithMetadata | null> {
+    const raw = await this.storage.getItem(key);
+    if (!raw) return null;
+
+    const stored = parseStoredValue(raw);
+    if (!stored) {
+      const corruption = detectEnvelopeCorruption(raw);
+      if (corruption) {
+        await this.storage.quarantine(key, corruption);
+        return null;
+      }
+      // Plain value written without an envelope (backward compatibility)
+      return {
+        value: raw,
+        writtenAt: null,
+        expiresAt: null,
+        remainingTtl: null,
+        sliding: false,
+      };
+    }
+
+    if (isExpired(stored)) {
+      if (lockHeld) {
+        await this.storage.removeItem(key);
+      } else {
+        await this.storage.withLock(key, () => this.removeExpired(key, raw));
+      }
+      return null;
+    }
+
+    let current = stored;
+    if (stored.sliding) {
+      current = lockHeld
+        ? await this.refreshSliding(key, stored)
+        : await this.storage.withLock(key, () =>
+            this.refreshSliding(key, stored)
+          );
+    }
+
+    this.touch(key);
+    const expiresAt = getExpiresAt(current);
+    return {
+      value: await this.openValue(key, current),
+      writtenAt: current.timestamp,
+      expiresAt,
+      remainingTtl:
+        expiresAt === null ? null : Math.max(0, expiresAt - Date.now()),
+      sliding: current.sliding === true,
+    };
+  }
+
+  /**
+   * Restart a sliding entry's TTL. Must be called with the key lock held.
+   *
+   * @returns The refreshed envelope, or `stored` unchanged if the entry was
+   *   rewritten or removed since it was read.
+   */
+  private async refreshSliding(
+    key: string,
+    stored: StoredValue
+  ): Promise<StoredValue> {
+    const raw = await this.storage.getItem(key);
+    const latest = raw ? parseStoredValue(raw) : null;
+    if (
+      !latest ||
+      latest.timestamp !== stored.timestamp ||
+      latest.value !== stored.value
+    ) {
+      return stored;
+    }
+    const refreshed: StoredValue = { ...latest, accessedAt: Date.now() };
+    // The value is unchanged, so subscribers are not notified
+    await this.storage.setItem(key, JSON.stringify(refreshed), {
+      silent: true,
+    });
+    return refreshed;
+  }
+
+  /**
+   * Remove an expired entry, unless it was rewritten since it was read.
+   * Must be called with the key lock held.
+   *
+   * @param raw - The serialized entry that was found expired.
+   */
+  private async removeExpired(key: string, raw: string): Promise<void> {
+    const latest = await this.storage.getItem(key);
+    if (latest !== null && latest !== raw) return;
+    await this.storage.removeItem(key);
+  }
+
+  /**
+   * Remove expired entries under their key locks, skipping any that were
+   * rewritten since they were read.
+   *
+   * @param rows - `[key, raw]` pairs that were found expired.
+   * @returns The rows that were removed.
+   */
+  private async removeExpiredRows(
+    rows: [string, string][]
+  ): Promise<[string, string][]> {
+    if (rows.length === 0) return [];
+    const keys = rows.map(([key]) => key);
+    return this.withLocks(keys, async () => {
+      const latest = new Map(await this.storage.multiGet(keys));
+      const unchanged = rows.filter(([key, raw]) => latest.get(key) === raw);
+      await this.storage.multiRemove(unchanged.map(([key]) => key));
+      return unchanged;
+    });
+  }
+
+  /**
+   * Run a task while holding the locks of several keys. Locks are taken in
+   * sorted order, so overlapping batches cannot deadlock each other.
+   */
+  private withLocks<T>(keys: string[], task: () => Promise<T>): Promise<T> {
+    let locked = task;
+    // Wrap innermost-last so the first sorted key is locked first
+    for (const key of [...new Set(keys)].sort().reverse()) {
+      const inner = locked;
+      locked = () => this.storage.withLock(key, inner);
+    }
+    return locked();
+  }
+
+  /**
+   * Seal and store a value, without taking the key lock.
+   */
+  private async writeItem(
+    key: string,
+    value: string,
+    ttl?: Optional<number>,
+    options: AdvancedSetOptions = {}
+  ): Promise<void> {
+    const sealed = await this.seal(value, ttl, {
+      sliding: options.sliding || undefined,
+    });
+    await this.reserve([[key, sealed]]);
+    await this.storage.setItem(key, sealed);
+    this.touch(key);
+  }
+
+  /**
+   * Make room for a write under the storage budget, evicting entries if needed.
+   *
+   * @param pairs - The `[key, serializedEnvelope]` pairs about to be written.
+   * @throws StorageQuotaExceededError if the write cannot fit.
+   */
+  private async reserve(pairs: [string, string][]): Promise<void> {
+    const budget = this.budget;
+    if (!budget || pairs.length === 0) return;
+
+    const usage = await this.loadUsage();
+    const incoming = new Map(
+      pairs.map(([key, raw]) => [key, this.entryBytes(key, raw)])
+    );
+    let total = 0;
+    usage.forEach((entry, key) => {
+      if (!incoming.has(key)) total += entry.bytes;
+    });
+    incoming.forEach((bytes) => {
+      total += bytes;
+    });
+    if (total <= budget.maxBytes) return;
+
+    const protectedPrefixes = budget.protectedPrefixes ?? [];
+    const rank = (key: string, entry: UsageEntry): number =>
+      budget.evictionPolicy === 'oldest'
+        ? (entry.timestamp ?? 0)
+        : (this.lastAccess.get(key) ?? entry.timestamp ?? 0);
+    const candidates = [...usage]
+      .filter(
+        ([key, entry]) =>
+          entry.timestamp !== null &&
+          !incoming.has(key) &&
+          !protectedPrefixes.some((prefix) => key.startsWith(prefix))
+      )
+      .sort(
+        ([keyA, a], [keyB, b]) =>
+          Number(b.expired) - Number(a.expired) || rank(keyA, a) - rank(keyB, b)
+      );
+
+    const evicted: string[] = [];
+    for (const [key, entry] of candidates) {
+      if (total <= budget.maxBytes) break;
+      evicted.push(key);
+      total -= entry.bytes;
+    }
+    if (total > budget.maxBytes) {
+      throw new StorageQuotaExceededError(
+        `Write needs ${total} bytes, exceeding the storage budget of ${budget.maxBytes} bytes`,
+        total,
+        budget.maxBytes
+      );
+    }
+
+    await this.storage.multiRemove(evicted);
+    evicted.forEach((key) => this.lastAccess.delete(key));
+  }
+
+  /**
+   * Get the per-key usage table, measuring only keys that changed since
+   * the last call. Changes are tracked through the storage change bus, so
+   * writes made through other instances are accounted for too.
+   */
+  private async loadUsage(): Promise<Map<string, UsageEntry>> {
+    if (!this.unsubscribeUsage) {
+      this.unsubscribeUsage = this.storage.subscribe(/^/, ({ key }) => {
+        if (key === null) {
+          this.usage = null;
+          this.staleKeys.clear();
+        } else {
+          this.staleKeys.add(key);
+        }
+      });
+    }
+    if (!this.usage) {
+      this.usage = new Map();
+      this.staleKeys = new Set(await this.storage.getAllKeys());
+    }
+
+    const usage = this.usage;
+    const stale = [...this.staleKeys];
+    this.staleKeys.clear();
+    for (let i = 0; i < stale.length; i += DEFAULT_SCAN_BATCH_SIZE) {
+      const pairs = await this.storage.multiGet(
+        stale.slice(i, i + DEFAULT_SCAN_BATCH_SIZE)
+      );
+      for (const [key, raw] of pairs) {
+        if (raw == null) {
+          usage.delete(key);
+          continue;
+        }
+        const stored = parseStoredValue(raw);
+        usage.set(key, {
+          bytes: this.entryBytes(key, raw),
+          timestamp: stored?.timestamp ?? null,
+          expired: stored ? isExpired(stored) : false,
+        });
+      }
+    }
+    return usage;
+  }
+
+  /** Bytes a key/value pair takes in the backend (full, prefixed key). */
+  private entryBytes(key: string, raw: string): number {
+    const namespace = this.storage.namespace;
+    const fullKey = namespace
+      ? `${namespace}${NAMESPACE_SEPARATOR}${key}`
+      : key;
+    return utf8ByteLength(fullKey) + utf8ByteLength(raw);
+  }
+
+  /** Record a read or write for LRU eviction. */
+  private touch(key: string): void {
+    if (this.budget) this.lastAccess.set(key, Date.now());
+  }
+
+  /**
+   * Build the stored envelope for a value.
+   *
+   * @param envelope - Timestamp and sliding state to keep; a new write
+   *   gets the current time.
+   */
+  private async seal(
+    value: string,
+    ttl?: Optional<number>,
+    envelope: Pick<StoredValue, 'sliding' | 'accessedAt'> & {
+      timestamp?: number;
+    } = {}
+  ): Promise<string> {
+    const storedValue: StoredValue = {
+      value,
+      timestamp: envelope.timestamp ?? Date.now(),
+      ttl: ttl ?? undefined,
+      sliding: envelope.sliding,
+      accessedAt: envelope.accessedAt,
+    };
+    if (this.cipher) {
+      storedValue.value = await this.cipher.encrypt(value);
+      storedValue.kv = this.cipher.keyVersion;
+    }
+    return JSON.stringify(storedValue);
+  }
+
+  private async openValue(key: string, stored: StoredValue): Promise<string> {
+    if (stored.kv === undefined) return stored.value;
+    return openSealedValue(this.cipher, stored.value, stored.kv, key);
+  }
 }
 
 // Singleton instances
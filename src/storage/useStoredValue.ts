@@ -0,0 +1,92 @@
+/**
+ * React hook keeping a component in sync with a persisted value
+ *
+ * Reads through the storage service singleton and re-reads whenever the
+ * key changes, no matter which part of the app wrote it.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getStorageService } from './storage-singleton.js';
+
+/**
+ * Hook to read and write a persisted string value
+ *
+ * @param key - The storage key.
+ * @param defaultValue - Value returned while loading and when the key is missing.
+ * @returns Current value, loading flag, and setters that persist the change
+ *
+ * @example
+ * ```tsx
+ * function ThemeToggle() {
+ *   const { value, setValue } = useStoredValue('theme', 'light');
+ *
+ *   return (
+ *     <Switch
+ *       value={value === 'dark'}
+ *       onValueChange={(dark) => setValue(dark ? 'dark' : 'light')}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useStoredValue(
+  key: string,
+  defaultValue: string
+): {
+  value: string;
+  isLoading: boolean;
+  setValue: (value: string) => Promise<void>;
+  removeValue: () => Promise<void>;
+} {
+  const service = getStorageService();
+  const [state, setState] = useState<{
+    value: string;
+    isLoading: boolean;
+  }>({ value: defaultValue, isLoading: true });
+
+  useEffect(() => {
+    let active = true;
+    let latestRead = 0;
+
+    const load = () => {
+      // Ignore reads that finish after a newer one was started
+      const read = ++latestRead;
+      service
+        .getItem(key)
+        .then((stored) => {
+          if (active && read === latestRead) {
+            setState({ value: stored ?? defaultValue, isLoading: false });
+          }
+        })
+        .catch(() => {
+          if (active && read === latestRead) {
+            setState({ value: defaultValue, isLoading: false });
+          }
+        });
+    };
+
+    load();
+    const unsubscribe = service.subscribe(key, load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [service, key, defaultValue]);
+
+  const setValue = useCallback(
+    (value: string) => service.setItem(key, value),
+    [service, key]
+  );
+
+  const removeValue = useCallback(
+    () => service.removeItem(key),
+    [service, key]
+  );
+
+  return {
+    value: state.value,
+    isLoading: state.isLoading,
+    setValue,
+    removeValue,
+  };
+}
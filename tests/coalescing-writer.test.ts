@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  CoalescingWriter,
+  setAppStateModule,
+} from '../src/storage/coalescing-writer.js';
+
+type AppStateHandler = (state: string) => void;
+
+function createMockAppState() {
+  const handlers = new Set<AppStateHandler>();
+  const appState = {
+    addEventListener: vi.fn((_type: string, handler: AppStateHandler) => {
+      handlers.add(handler);
+      return { remove: () => handlers.delete(handler) };
+    }),
+  };
+  const emit = (state: string) => handlers.forEach((handler) => handler(state));
+  return { appState, handlers, emit };
+}
+
+describe('CoalescingWriter', () => {
+  let backend: MemoryStorageBackend;
+  let service: RNSerializedStorageService;
+  let mock: ReturnType<typeof createMockAppState>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    mock = createMockAppState();
+    setAppStateModule(mock.appState as never);
+    backend = new MemoryStorageBackend();
+    service = new RNSerializedStorageService({ backend });
+  });
+
+  afterEach(() => {
+    setAppStateModule(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should debounce writes to the latest value', async () => {
+    const setSpy = vi.spyOn(service, 'setObject');
+    const writer = new CoalescingWriter(service, { wait: 100 });
+
+    writer.setObject('draft', { text: 'h' });
+    await vi.advanceTimersByTimeAsync(50);
+    writer.setObject('draft', { text: 'hi' });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(setSpy).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(setSpy).toHaveBeenCalledTimes(1);
+    expect(await service.getObject('draft')).toEqual({ text: 'hi' });
+    expect(writer.hasPendingWrites()).toBe(false);
+  });
+
+  it('should cap debouncing with maxWait', async () => {
+    const setSpy = vi.spyOn(service, 'setObject');
+    const writer = new CoalescingWriter(service, { wait: 100, maxWait: 250 });
+
+    for (let i = 0; i < 5; i++) {
+      writer.setObject('scroll', i);
+      await vi.advanceTimersByTimeAsync(60);
+    }
+
+    expect(setSpy).toHaveBeenCalledTimes(1);
+    expect(setSpy).toHaveBeenCalledWith('scroll', 4);
+  });
+
+  it('should throttle writes to one per window', async () => {
+    const setSpy = vi.spyOn(service, 'setObject');
+    const writer = new CoalescingWriter(service, {
+      mode: 'throttle',
+      wait: 100,
+    });
+
+    writer.setObject('scroll', 1);
+    writer.setObject('scroll', 2);
+    writer.setObject('scroll', 3);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(setSpy.mock.calls).toEqual([['scroll', 1]]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(setSpy.mock.calls).toEqual([
+      ['scroll', 1],
+      ['scroll', 3],
+    ]);
+  });
+
+  it('should return pending values to reads', async () => {
+    await service.setObject('draft', { text: 'old' });
+    const writer = new CoalescingWriter(service, { wait: 100 });
+
+    writer.setObject('draft', { text: 'new' });
+
+    expect(await writer.getObject('draft')).toEqual({ text: 'new' });
+    expect(await service.getObject('draft')).toEqual({ text: 'old' });
+    expect(await writer.getObject('other')).toBeNull();
+  });
+
+  it('should validate pending values', async () => {
+    const writer = new CoalescingWriter(service);
+    const isString = (value: unknown): value is string =>
+      typeof value === 'string';
+
+    writer.setObject('draft', 42);
+
+    expect(await writer.getObject('draft', isString)).toBeNull();
+  });
+
+  it('should flush on demand', async () => {
+    const writer = new CoalescingWriter(service, { wait: 10_000 });
+    writer.setObject('a', 1);
+    writer.setObject('b', 2);
+
+    await writer.flush('a');
+    expect(await service.getObject('a')).toBe(1);
+    expect(writer.hasPendingWrites('b')).toBe(true);
+
+    await writer.flush();
+    expect(await service.getObject('b')).toBe(2);
+    expect(writer.hasPendingWrites()).toBe(false);
+  });
+
+  it('should flush when the app goes to the background', async () => {
+    const writer = new CoalescingWriter(service, { wait: 10_000 });
+    writer.setObject('draft', 'text');
+
+    mock.emit('active');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await service.getObject('draft')).toBeNull();
+
+    mock.emit('background');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await service.getObject('draft')).toBe('text');
+  });
+
+  it('should not listen to app state when disabled or disposed', async () => {
+    new CoalescingWriter(service, { flushOnBackground: false });
+    expect(mock.appState.addEventListener).not.toHaveBeenCalled();
+
+    const writer = new CoalescingWriter(service, { wait: 10_000 });
+    writer.setObject('draft', 'text');
+    await writer.dispose();
+
+    expect(mock.handlers.size).toBe(0);
+    expect(await service.getObject('draft')).toBe('text');
+  });
+
+  it('should drop pending values on remove', async () => {
+    await service.setObject('draft', 'old');
+    const writer = new CoalescingWriter(service, { wait: 100 });
+    writer.setObject('draft', 'new');
+
+    await writer.removeObject('draft');
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await writer.getObject('draft')).toBeNull();
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+
+  it('should log and rethrow failed flushes', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(service, 'setObject').mockRejectedValueOnce(
+      new Error('disk full')
+    );
+    const writer = new CoalescingWriter(service);
+    writer.setObject('draft', 'text');
+
+    await expect(writer.flush()).rejects.toThrow('disk full');
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[ERROR]',
+      expect.stringContaining('Coalesced write for "draft" failed')
+    );
+  });
+
+  it('should reject invalid delays', () => {
+    expect(() => new CoalescingWriter(service, { wait: -1 })).toThrow('wait');
+    expect(() => new CoalescingWriter(service, { maxWait: NaN })).toThrow(
+      'maxWait'
+    );
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { checkNativeModules } from '../src/diagnostics.js';
+import { RNStorage, setAsyncStorageModule } from '../src/storage/storage.rn.js';
 
 describe('checkNativeModules', () => {
   it('should return diagnostics for all native modules', () => {
@@ -21,6 +22,7 @@ describe('checkNativeModules', () => {
     expect(names).toContain('@react-native-community/netinfo');
     expect(names).toContain('@notifee/react-native');
     expect(names).toContain('react-native');
+    expect(names).toContain('react-native-keychain');
   });
 
   it('should generate a summary string', () => {
@@ -59,3 +61,27 @@ describe('checkNativeModules', () => {
     expect(diagnostics.unavailableCount).toBe(manualUnavailable);
   });
 });
+
+describe('checkNativeModules with the storage fallback', () => {
+  afterEach(() => {
+    setAsyncStorageModule(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should report AsyncStorage as degraded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setAsyncStorageModule(null);
+    await new RNStorage({ fallbackToMemory: true }).setItem('key', 'value');
+
+    const diagnostics = checkNativeModules();
+    const asyncStorage = diagnostics.modules.find(
+      (m) => m.name === '@react-native-async-storage/async-storage'
+    );
+
+    expect(asyncStorage?.degraded).toBe(true);
+    expect(diagnostics.degraded).toEqual([
+      '@react-native-async-storage/async-storage',
+    ]);
+    expect(diagnostics.summary).toContain('Running on fallback');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { StorageFetchCache } from '../src/storage/fetch-cache.js';
+
+describe('StorageFetchCache', () => {
+  let storage: AdvancedRNStorage;
+  let cache: StorageFetchCache;
+  let onError: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    storage = new AdvancedRNStorage({ backend: new MemoryStorageBackend() });
+    onError = vi.fn();
+    cache = new StorageFetchCache({ storage, onError });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fetch and store on a miss', async () => {
+    const fetcher = vi.fn(async () => ({ name: 'Ada' }));
+
+    expect(await cache.getOrFetch('profile', fetcher, { ttl: 1000 })).toEqual({
+      name: 'Ada',
+    });
+    expect(await storage.getItem('profile')).toBe('{"name":"Ada"}');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return fresh data without fetching', async () => {
+    await cache.getOrFetch('profile', async () => 1, { ttl: 1000 });
+    const fetcher = vi.fn(async () => 2);
+
+    vi.setSystemTime(1_000_500);
+
+    expect(await cache.getOrFetch('profile', fetcher, { ttl: 1000 })).toBe(1);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should return stale data at once and refresh it in the background', async () => {
+    const options = { ttl: 1000, staleWhileRevalidate: 5000 };
+    await cache.getOrFetch('profile', async () => 1, options);
+    const listener = vi.fn();
+    cache.subscribe('profile', listener);
+
+    vi.setSystemTime(1_002_000);
+    expect(await cache.getOrFetch('profile', async () => 2, options)).toBe(1);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(2));
+
+    expect(await cache.getOrFetch('profile', async () => 3, options)).toBe(2);
+  });
+
+  it('should refetch once the stale window has passed', async () => {
+    const options = { ttl: 1000, staleWhileRevalidate: 1000 };
+    await cache.getOrFetch('profile', async () => 1, options);
+
+    vi.setSystemTime(1_003_000);
+
+    expect(await cache.getOrFetch('profile', async () => 2, options)).toBe(2);
+  });
+
+  it('should share one in-flight fetch between concurrent callers', async () => {
+    let resolve!: (value: string) => void;
+    const fetcher = vi.fn(
+      () => new Promise<string>((done) => (resolve = done))
+    );
+
+    const first = cache.getOrFetch('feed', fetcher, { ttl: 1000 });
+    const second = cache.getOrFetch('feed', fetcher, { ttl: 1000 });
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+    resolve('items');
+
+    expect(await Promise.all([first, second])).toEqual(['items', 'items']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch separately when dedupe is disabled', async () => {
+    const fetcher = vi.fn(async () => 'items');
+    const options = { ttl: 1000, dedupe: false };
+
+    await Promise.all([
+      cache.getOrFetch('feed', fetcher, options),
+      cache.getOrFetch('feed', fetcher, options),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report background refresh failures and keep stale data', async () => {
+    const options = { ttl: 1000, staleWhileRevalidate: 5000 };
+    await cache.getOrFetch('profile', async () => 1, options);
+
+    vi.setSystemTime(1_002_000);
+    const result = await cache.getOrFetch(
+      'profile',
+      async () => {
+        throw new Error('offline');
+      },
+      options
+    );
+
+    expect(result).toBe(1);
+    await vi.waitFor(() =>
+      expect(onError).toHaveBeenCalledWith(new Error('offline'), 'profile')
+    );
+    expect(await storage.getItem('profile')).toBe('1');
+  });
+
+  it('should propagate fetch errors when nothing is cached', async () => {
+    await expect(
+      cache.getOrFetch(
+        'profile',
+        async () => {
+          throw new Error('offline');
+        },
+        { ttl: 1000 }
+      )
+    ).rejects.toThrow('offline');
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * Map-backed AsyncStorage, so values round-trip through the real envelopes.
+ *
+ * @returns The module to pass to `setAsyncStorageModule()` and the map
+ *   holding its raw values.
+ */
+export function createMemoryAsyncStorage() {
+  const store = new Map<string, string>();
+  const asyncStorage = {
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    getItem: async (key: string) => store.get(key) ?? null,
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    clear: async () => store.clear(),
+    getAllKeys: async () => [...store.keys()],
+    multiRemove: async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    },
+  };
+  return { store, asyncStorage };
+}
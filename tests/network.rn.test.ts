@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   RNNetworkService,
   RNNetworkClient,
@@ -306,6 +306,192 @@ describe('RNNetworkClient', () => {
   });
 });
 
+describe('RNNetworkClient retries', () => {
+  const respond = (status: number, headers: Record<string, string> = {}) =>
+    ({
+      ok: status < 400,
+      status,
+      statusText: String(status),
+      json: () => Promise.resolve({ status }),
+      headers: new Headers({ 'content-type': 'application/json', ...headers }),
+    }) as Response;
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    fetchMock = vi.fn();
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should make a single attempt by default', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+
+    const response = await new RNNetworkClient().get('https://example.com');
+
+    expect(response.status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable statuses with jittered exponential backoff', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockResolvedValueOnce(respond(502))
+      .mockResolvedValueOnce(respond(200));
+    const client = new RNNetworkClient(30000, {
+      maxAttempts: 3,
+      baseDelayMs: 100,
+    });
+
+    const pending = client.get('https://example.com');
+    await vi.advanceTimersByTimeAsync(49);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await pending).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response once attempts run out', async () => {
+    fetchMock.mockResolvedValue(respond(500));
+    const client = new RNNetworkClient(30000, {
+      maxAttempts: 2,
+      jitter: false,
+    });
+
+    const pending = client.get('https://example.com');
+    await vi.advanceTimersByTimeAsync(300);
+
+    expect(await pending).toMatchObject({ status: 500, success: false });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other statuses', async () => {
+    fetchMock.mockResolvedValue(respond(404));
+    const client = new RNNetworkClient(30000, { maxAttempts: 3 });
+
+    expect((await client.get('https://example.com')).status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry connection errors and rethrow the last one', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    const client = new RNNetworkClient(30000, {
+      maxAttempts: 2,
+      jitter: false,
+    });
+
+    const pending = client.get('https://example.com');
+    const assertion = expect(pending).rejects.toThrow(TypeError);
+    await vi.advanceTimersByTimeAsync(300);
+
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry the configured error kinds', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    const client = new RNNetworkClient(30000, {
+      maxAttempts: 3,
+      retryOnErrors: ['timeout'],
+    });
+
+    await expect(client.get('https://example.com')).rejects.toThrow(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait as long as Retry-After asks', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(429, { 'retry-after': '2' }))
+      .mockResolvedValueOnce(respond(200));
+    const client = new RNNetworkClient(30000, { maxAttempts: 2 });
+
+    const pending = client.get('https://example.com');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+  });
+
+  it('should give up when Retry-After exceeds maxDelayMs', async () => {
+    fetchMock.mockResolvedValue(respond(503, { 'retry-after': '120' }));
+    const client = new RNNetworkClient(30000, { maxAttempts: 3 });
+
+    expect((await client.get('https://example.com')).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry non-idempotent methods when opted in', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const client = new RNNetworkClient(30000, {
+      maxAttempts: 2,
+      jitter: false,
+    });
+
+    await client.post('https://example.com', { a: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const pending = client.post(
+      'https://example.com',
+      { a: 1 },
+      { retry: { retryNonIdempotent: true } }
+    );
+    await vi.advanceTimersByTimeAsync(300);
+    await pending;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should match non-idempotent methods case-insensitively', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const client = new RNNetworkClient(30000, { maxAttempts: 2 });
+
+    await client.request('https://example.com', { method: 'post' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let requests override or disable the policy', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const client = new RNNetworkClient(30000, { maxAttempts: 3 });
+
+    await client.get('https://example.com', { retry: false });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await client.get('https://example.com', { retry: { maxAttempts: 1 } });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop retrying when the caller aborts', async () => {
+    fetchMock.mockResolvedValue(respond(503));
+    const controller = new AbortController();
+    const client = new RNNetworkClient(30000, { maxAttempts: 3 });
+
+    const pending = client.get('https://example.com', {
+      signal: controller.signal,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    expect((await pending).status).toBe(503);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid attempt counts', () => {
+    expect(() => new RNNetworkClient(30000, { maxAttempts: 0 })).toThrow(
+      'maxAttempts'
+    );
+  });
+});
+
 describe('NetworkError', () => {
   it('should have correct properties', () => {
     const error = new NetworkError('timeout', 408, 'Request Timeout');
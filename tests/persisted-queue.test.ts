@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { PersistedQueue } from '../src/storage/persisted-queue.js';
+
+describe('PersistedQueue', () => {
+  let backend: MemoryStorageBackend;
+  let storage: RNStorage;
+
+  const createQueue = (maxAttempts = 3) =>
+    new PersistedQueue<string>('outbox', {
+      storage,
+      visibilityTimeout: 1_000,
+      maxAttempts,
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    backend = new MemoryStorageBackend();
+    storage = new RNStorage({ backend });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hand out items in FIFO order', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+
+    const first = await queue.peek();
+    expect(first).toMatchObject({ payload: 'a', attempts: 1 });
+    await queue.ack(first!.id);
+
+    expect((await queue.peek())?.payload).toBe('b');
+  });
+
+  it('should hide leased items until the visibility timeout passes', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+
+    expect((await queue.peek())?.payload).toBe('a');
+    expect(await queue.peek()).toBeNull();
+
+    vi.setSystemTime(1_000);
+    expect(await queue.peek()).toMatchObject({ payload: 'a', attempts: 2 });
+  });
+
+  it('should retry nacked items after the delay and record the error', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+
+    const item = await queue.peek();
+    expect(
+      await queue.nack(item!.id, { error: new Error('offline'), delay: 500 })
+    ).toBe(true);
+
+    expect((await queue.peek())?.payload).toBe('b');
+    vi.setSystemTime(500);
+    expect(await queue.peek()).toMatchObject({
+      payload: 'a',
+      attempts: 2,
+      lastError: 'offline',
+    });
+  });
+
+  it('should dead-letter items that run out of attempts', async () => {
+    const queue = createQueue(2);
+    await queue.enqueue('poison');
+
+    await queue.nack((await queue.peek())!.id);
+    expect(await queue.nack((await queue.peek())!.id, { error: 'boom' })).toBe(
+      false
+    );
+
+    expect(await queue.size()).toBe(0);
+    expect(await queue.peek()).toBeNull();
+    expect(await queue.getDeadLetters()).toEqual([
+      expect.objectContaining({
+        payload: 'poison',
+        attempts: 2,
+        lastError: 'boom',
+      }),
+    ]);
+  });
+
+  it('should survive a restart and redeliver leased items', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+    await queue.peek();
+
+    const restarted = createQueue();
+    expect(await restarted.size()).toBe(2);
+    expect(await restarted.peek()).toMatchObject({
+      payload: 'a',
+      attempts: 2,
+    });
+
+    const item = await restarted.enqueue('c');
+    expect(item.id > (await restarted.peek())!.id).toBe(true);
+  });
+
+  it('should dead-letter items that crash the app on every delivery', async () => {
+    await createQueue(2).enqueue('poison');
+    await createQueue(2).peek();
+    await createQueue(2).peek();
+
+    const queue = createQueue(2);
+    expect(await queue.peek()).toBeNull();
+    expect(await queue.getDeadLetters()).toHaveLength(1);
+  });
+
+  it('should requeue and purge dead letters', async () => {
+    const queue = createQueue(1);
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+    await queue.nack((await queue.peek())!.id);
+    await queue.nack((await queue.peek())!.id);
+
+    const [dead] = await queue.getDeadLetters();
+    expect(await queue.requeueDeadLetter(dead!.id)).toMatchObject({
+      payload: 'a',
+      attempts: 0,
+    });
+    expect(await queue.requeueDeadLetter(dead!.id)).toBeNull();
+    expect(await queue.size()).toBe(1);
+
+    expect(await queue.purgeDeadLetters()).toBe(1);
+    expect(await queue.getDeadLetters()).toEqual([]);
+  });
+
+  it('should notify subscribers of the queue length', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+    const lengths: number[] = [];
+
+    const unsubscribe = queue.subscribe((length) => lengths.push(length));
+    await queue.enqueue('b');
+    await queue.ack((await queue.peek())!.id);
+    await queue.clear();
+    unsubscribe();
+    await queue.enqueue('c');
+
+    expect(lengths).toEqual([1, 2, 1, 0]);
+  });
+
+  it('should keep each queue in its own namespace', async () => {
+    await createQueue().enqueue('a');
+    await new PersistedQueue<string>('uploads', { storage }).enqueue('b');
+
+    expect((await backend.getAllKeys()).sort()).toEqual([
+      'queue:outbox:item:000000000001',
+      'queue:uploads:item:000000000001',
+    ]);
+  });
+
+  it('should not load the items of a queue whose name extends its own', async () => {
+    await new PersistedQueue<string>('a:item', { storage }).enqueue('x');
+
+    const queue = new PersistedQueue<string>('a', { storage });
+    expect(await queue.size()).toBe(0);
+    expect(await queue.peek()).toBeNull();
+  });
+
+  it('should quarantine undecodable rows and keep serving the rest', async () => {
+    const queue = createQueue();
+    await queue.enqueue('a');
+    await queue.enqueue('b');
+    await backend.setItem('queue:outbox:item:000000000001', '{"$rich":');
+
+    const restarted = createQueue();
+    expect(await restarted.size()).toBe(1);
+    expect(await restarted.peek()).toMatchObject({ payload: 'b' });
+    expect(await restarted.enqueue('c')).toMatchObject({
+      id: '000000000003',
+    });
+    expect(await storage.getQuarantinedEntries()).toEqual([
+      expect.objectContaining({ key: 'queue:outbox:item:000000000001' }),
+    ]);
+  });
+
+  it('should preserve rich payloads', async () => {
+    const queue = new PersistedQueue<{ at: Date }>('dates', { storage });
+    await queue.enqueue({ at: new Date(42) });
+
+    const restarted = new PersistedQueue<{ at: Date }>('dates', { storage });
+    expect((await restarted.peek())?.payload.at).toEqual(new Date(42));
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => new PersistedQueue('', { storage })).toThrow('non-empty');
+    expect(
+      () => new PersistedQueue('q', { storage, visibilityTimeout: 0 })
+    ).toThrow('visibilityTimeout');
+    expect(() => new PersistedQueue('q', { storage, maxAttempts: 0 })).toThrow(
+      'maxAttempts'
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RNSecureStorageService,
+  SecureStorageUnavailableError,
+  setKeychainModule,
+  type KeychainModuleLike,
+  type KeychainOptions,
+} from '../src/storage/secure-storage.rn.js';
+
+function createMockKeychain() {
+  const entries = new Map<
+    string,
+    { password: string; options: KeychainOptions }
+  >();
+  const keychain = {
+    setGenericPassword: vi.fn(
+      async (
+        _username: string,
+        password: string,
+        options?: KeychainOptions
+      ) => {
+        entries.set(options?.service ?? '', {
+          password,
+          options: options ?? {},
+        });
+        return { service: options?.service };
+      }
+    ),
+    getGenericPassword: vi.fn(async (options?: KeychainOptions) => {
+      const entry = entries.get(options?.service ?? '');
+      return entry ? { username: 'user', password: entry.password } : false;
+    }),
+    resetGenericPassword: vi.fn(async (options?: KeychainOptions) =>
+      entries.delete(options?.service ?? '')
+    ),
+    getAllGenericPasswordServices: vi.fn(async () => [...entries.keys()]),
+  } satisfies KeychainModuleLike;
+  return { keychain, entries };
+}
+
+describe('RNSecureStorageService', () => {
+  let mock: ReturnType<typeof createMockKeychain>;
+  let service: RNSecureStorageService;
+
+  beforeEach(() => {
+    mock = createMockKeychain();
+    setKeychainModule(mock.keychain);
+    service = new RNSecureStorageService();
+  });
+
+  afterEach(() => {
+    setKeychainModule(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should store and read secrets', async () => {
+    await service.setItem('token', 'secret');
+
+    expect(await service.getItem('token')).toBe('secret');
+    expect(await service.getItem('missing')).toBeNull();
+    expect(service.isAvailable()).toBe(true);
+    expect(service.getType()).toBe('asyncStorage');
+    expect(service.getBackendType()).toBe('secureStorage');
+  });
+
+  it('should store each key under its own service name', async () => {
+    await service.setItem('token', 'secret');
+
+    expect(mock.entries.has('di_rn:token')).toBe(true);
+  });
+
+  it('should apply accessibility levels', async () => {
+    const background = new RNSecureStorageService({
+      accessible: 'afterFirstUnlock',
+    });
+
+    await background.setItem('a', '1');
+    await background.setItem('b', '2', {
+      accessible: 'whenPasscodeSetThisDeviceOnly',
+    });
+
+    expect(mock.entries.get('di_rn:a')?.options.accessible).toBe(
+      'AccessibleAfterFirstUnlock'
+    );
+    expect(mock.entries.get('di_rn:b')?.options.accessible).toBe(
+      'AccessibleWhenPasscodeSetThisDeviceOnly'
+    );
+  });
+
+  it('should protect entries with biometrics and pass the prompt on read', async () => {
+    await service.setItem('token', 'secret', { biometrics: 'currentSet' });
+    await service.getItem('token', { prompt: { title: 'Unlock' } });
+
+    expect(mock.entries.get('di_rn:token')?.options.accessControl).toBe(
+      'BiometryCurrentSet'
+    );
+    expect(mock.keychain.getGenericPassword).toHaveBeenCalledWith({
+      service: 'di_rn:token',
+      authenticationPrompt: { title: 'Unlock' },
+    });
+  });
+
+  it('should list and clear only its own keys', async () => {
+    const other = new RNSecureStorageService({ service: 'other' });
+    await service.setItem('a', '1');
+    await service.setItem('b', '2');
+    await other.setItem('a', 'kept');
+
+    expect(await service.getAllKeys()).toEqual(['a', 'b']);
+
+    await service.clear();
+
+    expect(await service.getAllKeys()).toEqual([]);
+    expect(await other.getItem('a')).toBe('kept');
+  });
+
+  it('should remove secrets', async () => {
+    await service.setItem('token', 'secret');
+    await service.removeItem('token');
+
+    expect(await service.getItem('token')).toBeNull();
+  });
+
+  it('should throw when the keychain rejects a write', async () => {
+    mock.keychain.setGenericPassword.mockResolvedValueOnce(false as never);
+
+    await expect(service.setItem('token', 'secret')).rejects.toThrow(
+      'rejected'
+    );
+  });
+
+  it('should throw a clear error when no keychain module is available', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setKeychainModule(null);
+
+    expect(service.isAvailable()).toBe(false);
+    await expect(service.getItem('token')).rejects.toBeInstanceOf(
+      SecureStorageUnavailableError
+    );
+    await expect(service.setItem('token', 'secret')).rejects.toThrow(
+      'react-native-keychain'
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RNStorage, AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { RNStorageService } from '../src/storage/storage-singleton.js';
+import {
+  MemoryStorageBackend,
+  MMKVStorageBackend,
+  SQLiteStorageBackend,
+  type MMKVLike,
+  type SQLiteDatabaseLike,
+} from '../src/storage/storage-backends.js';
+
+function createFakeMMKV(): MMKVLike & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    set: (key, value) => data.set(key, value),
+    getString: (key) => data.get(key),
+    delete: (key) => data.delete(key),
+    getAllKeys: () => [...data.keys()],
+    clearAll: () => data.clear(),
+  };
+}
+
+// Understands exactly the statements issued by SQLiteStorageBackend
+function createFakeSQLite(): SQLiteDatabaseLike & {
+  rows: Map<string, string>;
+} {
+  const rows = new Map<string, string>();
+  return {
+    rows,
+    execAsync: vi.fn(async () => {}),
+    runAsync: async (source, params) => {
+      if (source.startsWith('INSERT OR REPLACE')) {
+        rows.set(params[0]!, params[1]!);
+      } else if (source.startsWith('DELETE') && source.includes('WHERE')) {
+        params.forEach((key) => rows.delete(key));
+      } else if (source.startsWith('DELETE')) {
+        rows.clear();
+      }
+    },
+    getFirstAsync: async <T>(_source: string, params: string[]) => {
+      const value = rows.get(params[0]!);
+      return (value === undefined ? null : { value }) as T | null;
+    },
+    getAllAsync: async <T>(source: string, params: string[]) => {
+      if (source.startsWith('SELECT key FROM')) {
+        return [...rows.keys()].map((key) => ({ key })) as T[];
+      }
+      return params
+        .filter((key) => rows.has(key))
+        .map((key) => ({ key, value: rows.get(key) })) as T[];
+    },
+    withTransactionAsync: async (task) => task(),
+  };
+}
+
+describe('storage backends', () => {
+  it('should read and write through the memory backend', async () => {
+    const storage = new RNStorage({ backend: new MemoryStorageBackend() });
+
+    await storage.multiSet([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+    await storage.removeItem('a');
+
+    expect(await storage.getItem('b')).toBe('2');
+    expect(await storage.getAllKeys()).toEqual(['b']);
+  });
+
+  it('should read and write through an MMKV store', async () => {
+    const mmkv = createFakeMMKV();
+    const storage = new RNStorage({ backend: new MMKVStorageBackend(mmkv) });
+
+    await storage.setItem('theme', 'dark');
+    await storage.multiMerge([['settings', '{"a":1}']]);
+    await storage.multiMerge([['settings', '{"b":2}']]);
+
+    expect(mmkv.data.get('theme')).toBe('dark');
+    expect(await storage.getItem('settings')).toBe('{"a":1,"b":2}');
+    await storage.clear();
+    expect(mmkv.data.size).toBe(0);
+  });
+
+  it('should read and write through a SQLite database', async () => {
+    const db = createFakeSQLite();
+    const storage = new RNStorage({ backend: new SQLiteStorageBackend(db) });
+
+    await storage.setItem('a', '1');
+    await storage.multiSet([['b', '2']]);
+
+    expect(await storage.multiGet(['a', 'b', 'c'])).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+      ['c', null],
+    ]);
+    await storage.multiRemove(['a']);
+    expect(await storage.getAllKeys()).toEqual(['b']);
+    expect(db.execAsync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject table names that are not SQL identifiers', () => {
+    expect(
+      () =>
+        new SQLiteStorageBackend(createFakeSQLite(), {
+          tableName: 'kv; DROP TABLE x',
+        })
+    ).toThrow('Invalid SQLite table name');
+  });
+
+  it('should keep the backend in scopes and AdvancedRNStorage', async () => {
+    const mmkv = createFakeMMKV();
+    const storage = new AdvancedRNStorage({
+      backend: new MMKVStorageBackend(mmkv),
+    });
+
+    await storage.scope('account').setItem('token', 'abc');
+
+    expect(mmkv.data.has('account:token')).toBe(true);
+  });
+
+  it('should report the active backend from getType', () => {
+    expect(new RNStorageService().getType()).toBe('asyncStorage');
+    expect(
+      new RNStorageService({ backend: new MemoryStorageBackend() }).getType()
+    ).toBe('memory');
+    const hot = new RNStorageService({
+      backend: new MMKVStorageBackend(createFakeMMKV()),
+    }).scope('hot');
+    expect(hot.getType()).toBe('asyncStorage');
+    expect(hot.getBackendType()).toBe('mmkv');
+  });
+
+  it('should only notify subscribers of the same backend', async () => {
+    const backend = new MemoryStorageBackend();
+    const listener = vi.fn();
+    new RNStorage({ backend }).subscribe('key', listener);
+
+    await new RNStorage({ backend: new MemoryStorageBackend() }).setItem(
+      'key',
+      'other'
+    );
+    await new RNStorage({ backend }).setItem('key', 'mine');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
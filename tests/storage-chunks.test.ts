@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RNStorage, AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import {
+  StorageChunkError,
+  isChunkKey,
+  splitIntoChunks,
+  utf8ByteLength,
+} from '../src/storage/storage-chunks.js';
+
+describe('chunked storage', () => {
+  let backend: MemoryStorageBackend;
+  let storage: RNStorage;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    storage = new RNStorage({ backend, chunking: { maxValueBytes: 16 } });
+  });
+
+  it('should split large values and read them back transparently', async () => {
+    const value = 'x'.repeat(50);
+
+    await storage.setItem('big', value);
+
+    expect(await storage.getItem('big')).toBe(value);
+    expect((await backend.getAllKeys()).filter(isChunkKey)).toHaveLength(4);
+    expect(await new RNStorage({ backend }).getItem('big')).toBe(value);
+  });
+
+  it('should store small values in a single row', async () => {
+    await storage.setItem('small', 'tiny');
+
+    expect(await backend.getItem('small')).toBe('tiny');
+    expect(await backend.getAllKeys()).toEqual(['small']);
+  });
+
+  it('should keep multi-byte characters intact across chunk boundaries', async () => {
+    const value = 'é😀ab'.repeat(10);
+
+    await storage.setItem('emoji', value);
+
+    expect(await storage.getItem('emoji')).toBe(value);
+    for (const [key, chunk] of await backend.multiGet(
+      (await backend.getAllKeys()).filter(isChunkKey)
+    )) {
+      expect(key).toContain('emoji');
+      expect(utf8ByteLength(chunk ?? '')).toBeLessThanOrEqual(16);
+    }
+  });
+
+  it('should hide chunk keys from getAllKeys', async () => {
+    await storage.setItem('big', 'x'.repeat(50));
+    await storage.setItem('small', 'tiny');
+
+    expect(await storage.getAllKeys()).toEqual(['big', 'small']);
+  });
+
+  it('should reassemble chunked values in multiGet', async () => {
+    const value = 'y'.repeat(40);
+    await storage.multiSet([
+      ['big', value],
+      ['small', 'tiny'],
+    ]);
+
+    expect(await storage.multiGet(['big', 'small', 'missing'])).toEqual([
+      ['big', value],
+      ['small', 'tiny'],
+      ['missing', null],
+    ]);
+  });
+
+  it('should remove chunk keys with their value', async () => {
+    await storage.setItem('a', 'x'.repeat(50));
+    await storage.setItem('b', 'y'.repeat(50));
+
+    await storage.removeItem('a');
+    await storage.multiRemove(['b']);
+
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+
+  it('should drop the old chunks when a value is overwritten', async () => {
+    await storage.setItem('big', 'x'.repeat(50));
+    await storage.setItem('big', 'y'.repeat(20));
+    expect(await storage.getItem('big')).toBe('y'.repeat(20));
+    expect((await backend.getAllKeys()).filter(isChunkKey)).toHaveLength(2);
+
+    await storage.setItem('big', 'small');
+    expect(await backend.getAllKeys()).toEqual(['big']);
+  });
+
+  it('should clean up chunks through instances without chunking', async () => {
+    await storage.setItem('a', 'x'.repeat(50));
+    await storage.setItem('b', 'y'.repeat(50));
+    await storage.setItem('c', 'z'.repeat(50));
+    const plain = new RNStorage({ backend });
+
+    await plain.removeItem('a');
+    await plain.multiRemove(['b']);
+    await plain.setItem('c', 'small');
+
+    expect(await backend.getAllKeys()).toEqual(['c']);
+  });
+
+  it('should find chunks written before this session', async () => {
+    await storage.setItem('a', 'x'.repeat(50));
+    // Same rows, on a backend this process has not written chunks to
+    const restored = new MemoryStorageBackend();
+    await restored.multiSet(await backend.multiGet(await backend.getAllKeys()));
+
+    await new RNStorage({ backend: restored }).removeItem('a');
+
+    expect(await restored.getAllKeys()).toEqual([]);
+  });
+
+  it('should clear chunk keys of a scope', async () => {
+    const scoped = storage.scope('files');
+    await scoped.setItem('big', 'x'.repeat(50));
+    await storage.setItem('other', 'kept');
+
+    await scoped.clear();
+
+    expect(await backend.getAllKeys()).toEqual(['other']);
+  });
+
+  it('should throw when a chunk is missing or corrupt', async () => {
+    await storage.setItem('big', 'x'.repeat(50));
+    const [first, second] = (await backend.getAllKeys()).filter(isChunkKey);
+
+    await backend.setItem(first ?? '', 'z'.repeat(16));
+    await expect(
+      new RNStorage({ backend }).getItem('big')
+    ).rejects.toBeInstanceOf(StorageChunkError);
+
+    await backend.removeItem(second ?? '');
+    await expect(new RNStorage({ backend }).getItem('big')).rejects.toThrow(
+      'incomplete'
+    );
+  });
+
+  it('should merge into chunked values', async () => {
+    const list = Array.from({ length: 10 }, (_, i) => i);
+    await storage.setItem('doc', JSON.stringify({ list }));
+
+    await storage.multiMerge([['doc', JSON.stringify({ name: 'Ada' })]]);
+
+    expect(JSON.parse((await storage.getItem('doc')) ?? '')).toEqual({
+      list,
+      name: 'Ada',
+    });
+  });
+
+  it('should chunk TTL entries and clean them up with clearPattern', async () => {
+    const advanced = new AdvancedRNStorage({
+      backend,
+      chunking: { maxValueBytes: 16 },
+    });
+    await advanced.setItem('cache:feed', 'x'.repeat(50), 60000);
+    await advanced.setItem('settings:theme', 'dark');
+
+    expect(await advanced.getItem('cache:feed')).toBe('x'.repeat(50));
+
+    await advanced.clearPattern('^cache:');
+    const remaining = await backend.getAllKeys();
+    expect(remaining.some((key) => key.startsWith('cache:'))).toBe(false);
+    expect(await advanced.getItem('settings:theme')).toBe('dark');
+  });
+
+  it('should reject a chunk size below four bytes', () => {
+    expect(
+      () => new RNStorage({ backend, chunking: { maxValueBytes: 2 } })
+    ).toThrow('maxValueBytes');
+  });
+
+  it('should not split values that fit', () => {
+    expect(splitIntoChunks('key', 'abc', 16)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  registerStorageType,
+  resetStorageTypes,
+  richCodec,
+  StorageTypeError,
+} from '../src/storage/storage-codec.js';
+
+class Money {
+  constructor(
+    public amount: bigint,
+    public currency: string
+  ) {}
+}
+
+const roundTrip = (value: unknown) =>
+  richCodec.decode(richCodec.encode(value), 'key');
+
+describe('richCodec', () => {
+  afterEach(() => {
+    resetStorageTypes();
+  });
+
+  it('should store plain JSON values as plain JSON', () => {
+    const value = { name: 'Ada', tags: ['a'], nested: { n: 1 } };
+
+    expect(richCodec.encode(value)).toBe(JSON.stringify(value));
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should round-trip dates, maps, sets and bigints', () => {
+    const value = {
+      at: new Date('2024-01-02T03:04:05.000Z'),
+      byId: new Map<number, Date>([[1, new Date(0)]]),
+      tags: new Set(['a', 'b']),
+      big: 12345678901234567890n,
+    };
+
+    const decoded = roundTrip(value) as typeof value;
+
+    expect(decoded.at).toBeInstanceOf(Date);
+    expect(decoded.at.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    expect(decoded.byId.get(1)).toEqual(new Date(0));
+    expect(decoded.tags).toEqual(new Set(['a', 'b']));
+    expect(decoded.big).toBe(12345678901234567890n);
+  });
+
+  it('should round-trip typed arrays and array buffers', () => {
+    const decoded = roundTrip({
+      bytes: new Uint8Array([1, 2, 255]),
+      floats: new Float64Array([0.5, -1]),
+      bigs: new BigInt64Array([-1n, 2n]),
+      buffer: new Uint8Array([9, 8]).buffer,
+    }) as Record<string, unknown>;
+
+    expect(decoded.bytes).toEqual(new Uint8Array([1, 2, 255]));
+    expect(decoded.floats).toEqual(new Float64Array([0.5, -1]));
+    expect(decoded.bigs).toEqual(new BigInt64Array([-1n, 2n]));
+    expect(new Uint8Array(decoded.buffer as ArrayBuffer)).toEqual(
+      new Uint8Array([9, 8])
+    );
+  });
+
+  it('should keep undefined fields and non-finite numbers', () => {
+    const decoded = roundTrip({
+      missing: undefined,
+      list: [undefined, 1],
+      nan: NaN,
+      inf: -Infinity,
+    }) as Record<string, unknown>;
+
+    expect('missing' in decoded).toBe(true);
+    expect(decoded.list).toEqual([undefined, 1]);
+    expect(decoded.nan).toBeNaN();
+    expect(decoded.inf).toBe(-Infinity);
+  });
+
+  it('should not confuse plain objects with tagged values', () => {
+    const value = { $t: 'Date', v: 'not a date', at: new Date(0) };
+
+    expect(roundTrip(value)).toEqual(value);
+    expect(roundTrip({ $rich: 1, v: 'plain' })).toEqual({
+      $rich: 1,
+      v: 'plain',
+    });
+  });
+
+  it('should revive registered custom types', () => {
+    registerStorageType('Money', {
+      is: (value): value is Money => value instanceof Money,
+      serialize: (money) => [money.amount, money.currency],
+      revive: (data) => {
+        const [amount, currency] = data as [bigint, string];
+        return new Money(amount, currency);
+      },
+    });
+
+    const decoded = roundTrip({ price: new Money(999n, 'EUR') }) as {
+      price: Money;
+    };
+
+    expect(decoded.price).toBeInstanceOf(Money);
+    expect(decoded.price).toEqual(new Money(999n, 'EUR'));
+    expect(() =>
+      registerStorageType('Money', {
+        is: (value): value is Money => false,
+        serialize: () => null,
+        revive: () => new Money(0n, ''),
+      })
+    ).toThrow('already registered');
+  });
+
+  it('should fail to decode unregistered custom types', () => {
+    registerStorageType('Money', {
+      is: (value): value is Money => value instanceof Money,
+      serialize: (money) => money.currency,
+      revive: (data) => new Money(0n, String(data)),
+    });
+    const raw = richCodec.encode(new Money(1n, 'USD'));
+    resetStorageTypes();
+
+    expect(() => richCodec.decode(raw, 'price')).toThrow(
+      'unregistered type "Money"'
+    );
+  });
+
+  it('should reject circular structures', () => {
+    const value: Record<string, unknown> = {};
+    value.self = value;
+
+    expect(() => richCodec.encode(value)).toThrow('circular');
+  });
+});
+
+describe('RNSerializedStorageService codecs', () => {
+  let backend: MemoryStorageBackend;
+  let service: RNSerializedStorageService;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    service = new RNSerializedStorageService({ backend });
+  });
+
+  afterEach(() => {
+    resetStorageTypes();
+  });
+
+  it('should round-trip rich values through setObject and getObject', async () => {
+    await service.setObject('draft', {
+      savedAt: new Date(1000),
+      recipients: new Set(['a@example.com']),
+    });
+
+    const draft = await service.getObject<{
+      savedAt: Date;
+      recipients: Set<string>;
+    }>('draft');
+
+    expect(draft?.savedAt).toEqual(new Date(1000));
+    expect(draft?.recipients.has('a@example.com')).toBe(true);
+  });
+
+  it('should still read plain JSON written before', async () => {
+    await backend.setItem('user', '{"name":"Alice","age":30}');
+
+    expect(await service.getObject('user')).toEqual({
+      name: 'Alice',
+      age: 30,
+    });
+  });
+
+  it('should compare rich values in compareAndSet', async () => {
+    await service.setObject('seen', new Set([1]));
+
+    expect(await service.compareAndSet('seen', new Set([2]), new Set())).toBe(
+      false
+    );
+    expect(
+      await service.compareAndSet('seen', new Set([1]), new Set([1, 2]))
+    ).toBe(true);
+    expect(await service.getObject('seen')).toEqual(new Set([1, 2]));
+  });
+
+  it('should leave values of unregistered types in place', async () => {
+    registerStorageType('Money', {
+      is: (value): value is Money => value instanceof Money,
+      serialize: (money) => [money.amount, money.currency],
+      revive: (data) => {
+        const [amount, currency] = data as [bigint, string];
+        return new Money(amount, currency);
+      },
+    });
+    await service.setObject('wallet', { balance: new Money(5n, 'EUR') });
+    resetStorageTypes();
+
+    const result = await service.readObject('wallet');
+
+    expect(result.status).toBe('corrupt');
+    expect(result.status === 'corrupt' && result.error).toBeInstanceOf(
+      StorageTypeError
+    );
+    expect(await backend.getItem('wallet')).not.toBeNull();
+    expect(await service.getQuarantinedEntries()).toEqual([]);
+  });
+
+  it('should still quarantine unparseable rich envelopes', async () => {
+    await backend.setItem('wallet', '{"$rich":1,"v":');
+
+    expect((await service.readObject('wallet')).status).toBe('corrupt');
+    expect(await backend.getItem('wallet')).toBeNull();
+    expect(await service.getQuarantinedEntries()).toHaveLength(1);
+  });
+
+  it('should use a custom codec', async () => {
+    const custom = new RNSerializedStorageService({
+      backend,
+      codec: {
+        encode: (value) => `v1|${JSON.stringify(value)}`,
+        decode: (raw) => JSON.parse(raw.slice(3)) as unknown,
+      },
+    });
+
+    await custom.setObject('a', { n: 1 });
+
+    expect(await backend.getItem('a')).toBe('v1|{"n":1}');
+    expect(await custom.scope('x').getObject('a')).toBeNull();
+    expect(await custom.getObject('a')).toEqual({ n: 1 });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { KeyedMutex } from '../src/storage/keyed-mutex.js';
+import type { StorageCipher } from '../src/storage/storage-encryption.js';
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Hold the result of the backend's next `method` call until the returned
+ * release function is called.
+ */
+function holdNextRead(
+  backend: MemoryStorageBackend,
+  method: 'getItem' | 'multiGet'
+): () => void {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const original = backend[method].bind(backend) as (
+    arg: never
+  ) => Promise<unknown>;
+  vi.spyOn(backend, method).mockImplementationOnce((async (arg: never) => {
+    const result = await original(arg);
+    await gate;
+    return result;
+  }) as never);
+  return release;
+}
+
+const expiredEnvelope = (value: string) =>
+  JSON.stringify({ value, timestamp: 0, ttl: 1 });
+
+describe('KeyedMutex', () => {
+  it('should run tasks for the same key one at a time', async () => {
+    const mutex = new KeyedMutex();
+    const events: string[] = [];
+    const task = (name: string) => async () => {
+      events.push(`${name}:start`);
+      await tick();
+      events.push(`${name}:end`);
+    };
+
+    await Promise.all([mutex.run('k', task('a')), mutex.run('k', task('b'))]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+  });
+
+  it('should release the lock when a task throws', async () => {
+    const mutex = new KeyedMutex();
+    const failed = mutex.run('k', async () => {
+      throw new Error('boom');
+    });
+
+    await expect(failed).rejects.toThrow('boom');
+    expect(await mutex.run('k', async () => 'next')).toBe('next');
+  });
+});
+
+describe('RNSerializedStorageService atomic updates', () => {
+  it('should not lose concurrent updates', async () => {
+    const backend = new MemoryStorageBackend();
+    const a = new RNSerializedStorageService({ backend });
+    const b = new RNSerializedStorageService({ backend });
+    const increment = (count: number | null) => (count ?? 0) + 1;
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? a : b).update<number>('unread', async (count) => {
+          await tick();
+          return increment(count);
+        })
+      )
+    );
+
+    expect(await a.getObject('unread')).toBe(10);
+  });
+
+  it('should write with compareAndSet only when the value is unchanged', async () => {
+    const service = new RNSerializedStorageService({
+      backend: new MemoryStorageBackend(),
+    });
+    await service.setObject('drafts', ['a']);
+
+    expect(await service.compareAndSet('drafts', ['a'], ['a', 'b'])).toBe(true);
+    expect(await service.compareAndSet('drafts', ['a'], ['a', 'c'])).toBe(
+      false
+    );
+    expect(await service.getObject('drafts')).toEqual(['a', 'b']);
+  });
+
+  it('should treat null as expecting a missing key', async () => {
+    const service = new RNSerializedStorageService({
+      backend: new MemoryStorageBackend(),
+    });
+
+    expect(await service.compareAndSet('lock', null, 'owner-1')).toBe(true);
+    expect(await service.compareAndSet('lock', null, 'owner-2')).toBe(false);
+  });
+});
+
+describe('AdvancedRNStorage atomic updates', () => {
+  it('should not lose concurrent updates', async () => {
+    const storage = new AdvancedRNStorage({
+      backend: new MemoryStorageBackend(),
+    });
+
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        storage.update('counter', async (value) => {
+          await tick();
+          return String(Number(value ?? 0) + 1);
+        })
+      )
+    );
+
+    expect(await storage.getItem('counter')).toBe('10');
+  });
+
+  it('should report when a concurrent write wins compareAndSet', async () => {
+    const storage = new AdvancedRNStorage({
+      backend: new MemoryStorageBackend(),
+    });
+    await storage.setItem('draft', 'v1');
+    const seen = await storage.getItem('draft');
+
+    await storage.setItem('draft', 'v2');
+
+    expect(await storage.compareAndSet('draft', seen, 'v3')).toBe(false);
+    expect(await storage.getItem('draft')).toBe('v2');
+  });
+
+  it('should not lose overlapping multiMerge patches', async () => {
+    const storage = new AdvancedRNStorage({
+      backend: new MemoryStorageBackend(),
+    });
+
+    await Promise.all([
+      storage.multiMerge([
+        ['a', '{"x":1}'],
+        ['b', '{"x":1}'],
+      ]),
+      storage.multiMerge([
+        ['b', '{"y":2}'],
+        ['a', '{"y":2}'],
+      ]),
+      storage.update('a', async (value) => {
+        await tick();
+        return JSON.stringify({ ...JSON.parse(value ?? '{}'), z: 3 });
+      }),
+    ]);
+
+    expect(JSON.parse((await storage.getItem('a'))!)).toEqual({
+      x: 1,
+      y: 2,
+      z: 3,
+    });
+    expect(JSON.parse((await storage.getItem('b'))!)).toEqual({ x: 1, y: 2 });
+  });
+
+  it('should not remove a value rewritten after it was read as expired', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'token',
+      JSON.stringify({ value: 'old', timestamp: 0, ttl: 1 })
+    );
+    const storage = new AdvancedRNStorage({ backend });
+    const releaseRead = holdNextRead(backend, 'getItem');
+
+    const expiredRead = storage.getItem('token');
+    await storage.setItem('token', 'fresh');
+    releaseRead();
+
+    expect(await expiredRead).toBeNull();
+    expect(await storage.getItem('token')).toBe('fresh');
+  });
+
+  it('should not sweep a value rewritten after it was read as expired', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'k',
+      JSON.stringify({ value: 'old', timestamp: 0, ttl: 1 })
+    );
+    const storage = new AdvancedRNStorage({ backend });
+    const releaseRead = holdNextRead(backend, 'multiGet');
+
+    const sweep = storage.purgeExpired();
+    await tick();
+    await storage.setItem('k', 'fresh');
+    releaseRead();
+
+    expect(await sweep).toMatchObject({ scanned: 1, removed: 0 });
+    expect(await storage.getItem('k')).toBe('fresh');
+  });
+
+  it.each([
+    ['hasItem', 'getItem', (s: AdvancedRNStorage) => s.hasItem('k')],
+    ['multiGet', 'multiGet', (s: AdvancedRNStorage) => s.multiGet(['k'])],
+    [
+      'clearPattern',
+      'multiGet',
+      (s: AdvancedRNStorage) => s.clearPattern('^k$', { expiredOnly: true }),
+    ],
+  ] as const)(
+    'should not let %s remove a value rewritten after it expired',
+    async (_name, method, read) => {
+      const backend = new MemoryStorageBackend();
+      await backend.setItem('k', expiredEnvelope('old'));
+      const storage = new AdvancedRNStorage({ backend });
+      const releaseRead = holdNextRead(backend, method);
+
+      const pending = read(storage);
+      await tick();
+      await storage.setItem('k', 'fresh');
+      releaseRead();
+      await pending;
+
+      expect(await storage.getItem('k')).toBe('fresh');
+    }
+  );
+
+  it('should not let key rotation overwrite a concurrent write', async () => {
+    const backend = new MemoryStorageBackend();
+    const cipher = (keyVersion: number): StorageCipher => ({
+      keyVersion,
+      encrypt: async (plaintext) => `${keyVersion}:${plaintext}`,
+      decrypt: async (ciphertext) => ciphertext.replace(/^\d+:/, ''),
+    });
+    await new AdvancedRNStorage({ backend, cipher: cipher(1) }).setItem(
+      'k',
+      'old'
+    );
+    const storage = new AdvancedRNStorage({ backend, cipher: cipher(2) });
+    const releaseRead = holdNextRead(backend, 'getItem');
+
+    const rotation = storage.reencryptAll();
+    await tick();
+    const write = storage.setItem('k', 'new');
+    releaseRead();
+    await Promise.all([rotation, write]);
+
+    expect(await storage.getItem('k')).toBe('new');
+  });
+
+  it('should update expired values as missing', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'token',
+      JSON.stringify({ value: 'old', timestamp: 0, ttl: 1 })
+    );
+    const storage = new AdvancedRNStorage({ backend });
+
+    expect(await storage.update('token', (value) => value ?? 'fresh')).toBe(
+      'fresh'
+    );
+  });
+});
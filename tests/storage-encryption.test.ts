@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AdvancedRNStorage,
+  setAsyncStorageModule,
+} from '../src/storage/storage.rn.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  AesGcmStorageCipher,
+  StorageEncryptionError,
+  type AesGcmCryptoProvider,
+  type StorageCipher,
+} from '../src/storage/storage-encryption.js';
+import { createMemoryAsyncStorage } from './helpers/memory-async-storage.js';
+
+const { store, asyncStorage: memoryAsyncStorage } = createMemoryAsyncStorage();
+
+/**
+ * Pure-JS cipher stand-in: reverses the string and tags it with the key
+ * version so tests can see which key sealed a value.
+ */
+function createTestCipher(
+  keyVersion: number,
+  knownVersions: number[] = [keyVersion]
+): StorageCipher {
+  return {
+    keyVersion,
+    encrypt: async (plaintext) =>
+      `v${keyVersion}:${[...plaintext].reverse().join('')}`,
+    decrypt: async (ciphertext, version) => {
+      if (!knownVersions.includes(version)) {
+        throw new Error(`unknown key ${version}`);
+      }
+      return [...ciphertext.slice(`v${version}:`.length)].reverse().join('');
+    },
+  };
+}
+
+/** XOR "AES-GCM" provider: deterministic and reversible, for tests only. */
+const xorProvider: AesGcmCryptoProvider = {
+  getRandomBytes: (length) => Uint8Array.from({ length }, (_, i) => i + 1),
+  encrypt: async (key, iv, plaintext) =>
+    plaintext.map((b, i) => b ^ (key[i % key.length] ?? 0) ^ (iv[0] ?? 0)),
+  decrypt: async (key, iv, ciphertext) =>
+    ciphertext.map((b, i) => b ^ (key[i % key.length] ?? 0) ^ (iv[0] ?? 0)),
+};
+
+describe('AdvancedRNStorage encryption', () => {
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+  });
+
+  it('should store ciphertext tagged with the key version', async () => {
+    const storage = new AdvancedRNStorage({ cipher: createTestCipher(1) });
+    await storage.setItem('token', 'secret', 60000);
+
+    const envelope = JSON.parse(store.get('token') ?? '{}');
+    expect(envelope.value).toBe('v1:terces');
+    expect(envelope.kv).toBe(1);
+    expect(envelope.ttl).toBe(60000);
+    expect(await storage.getItem('token')).toBe('secret');
+  });
+
+  it('should keep reading plaintext values written before encryption', async () => {
+    await new AdvancedRNStorage().setItem('legacy', 'plain');
+    const storage = new AdvancedRNStorage({ cipher: createTestCipher(1) });
+    expect(await storage.getItem('legacy')).toBe('plain');
+  });
+
+  it('should throw when reading an encrypted value without a cipher', async () => {
+    await new AdvancedRNStorage({ cipher: createTestCipher(1) }).setItem(
+      'token',
+      'secret'
+    );
+    await expect(new AdvancedRNStorage().getItem('token')).rejects.toThrow(
+      StorageEncryptionError
+    );
+  });
+
+  it('should re-encrypt old key versions after rotation', async () => {
+    await new AdvancedRNStorage({ cipher: createTestCipher(1) }).setItem(
+      'token',
+      'secret'
+    );
+    await new AdvancedRNStorage().setItem('plain', 'value');
+
+    const rotated = new AdvancedRNStorage({
+      cipher: createTestCipher(2, [1, 2]),
+    });
+    expect(await rotated.getItem('token')).toBe('secret');
+    expect(await rotated.reencryptAll()).toBe(2);
+
+    expect(JSON.parse(store.get('token') ?? '{}').kv).toBe(2);
+    expect(JSON.parse(store.get('plain') ?? '{}').kv).toBe(2);
+    expect(await rotated.getItem('token')).toBe('secret');
+    expect(await rotated.reencryptAll()).toBe(0);
+  });
+
+  it('should carry the cipher into scoped views', async () => {
+    const scoped = new AdvancedRNStorage({
+      cipher: createTestCipher(1),
+    }).scope('account:42');
+    await scoped.setItem('token', 'secret');
+    expect(JSON.parse(store.get('account:42:token') ?? '{}').kv).toBe(1);
+  });
+});
+
+describe('RNSerializedStorageService encryption', () => {
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+  });
+
+  it('should round-trip encrypted objects', async () => {
+    const service = new RNSerializedStorageService({
+      cipher: createTestCipher(3),
+    });
+    await service.setObject('mail', { subject: 'Hi', unread: true });
+
+    const payload = JSON.parse(store.get('mail') ?? '{}');
+    expect(payload.__enc).toBe(3);
+    expect(payload.data).not.toContain('subject');
+    expect(await service.getObject('mail')).toEqual({
+      subject: 'Hi',
+      unread: true,
+    });
+  });
+
+  it('should read plain JSON objects', async () => {
+    store.set('settings', JSON.stringify({ theme: 'dark' }));
+    const service = new RNSerializedStorageService({
+      cipher: createTestCipher(1),
+    });
+    expect(await service.getObject('settings')).toEqual({ theme: 'dark' });
+  });
+
+  it('should report decryption failures', async () => {
+    await new RNSerializedStorageService({
+      cipher: createTestCipher(1),
+    }).setObject('mail', { a: 1 });
+    const service = new RNSerializedStorageService({
+      cipher: createTestCipher(2),
+    });
+    await expect(service.getObject('mail')).rejects.toThrow(
+      'Failed to decrypt "mail"'
+    );
+  });
+});
+
+describe('AesGcmStorageCipher', () => {
+  const keys = {
+    1: Uint8Array.from([7, 11, 13]),
+    2: Uint8Array.from([17, 19, 23]),
+  };
+
+  it('should round-trip unicode text', async () => {
+    const cipher = new AesGcmStorageCipher({
+      provider: xorProvider,
+      keys,
+      currentKeyVersion: 1,
+    });
+    const sealed = await cipher.encrypt('héllo ✉️ wörld');
+    expect(sealed).toMatch(/^[A-Za-z0-9+/=]+\.[A-Za-z0-9+/=]+$/);
+    expect(await cipher.decrypt(sealed, 1)).toBe('héllo ✉️ wörld');
+  });
+
+  it('should decrypt values sealed with older key versions', async () => {
+    const oldCipher = new AesGcmStorageCipher({
+      provider: xorProvider,
+      keys,
+      currentKeyVersion: 1,
+    });
+    const newCipher = new AesGcmStorageCipher({
+      provider: xorProvider,
+      keys,
+      currentKeyVersion: 2,
+    });
+    const sealed = await oldCipher.encrypt('secret');
+    expect(await newCipher.decrypt(sealed, 1)).toBe('secret');
+  });
+
+  it('should reject unknown key versions', async () => {
+    expect(
+      () =>
+        new AesGcmStorageCipher({
+          provider: xorProvider,
+          keys,
+          currentKeyVersion: 3,
+        })
+    ).toThrow(StorageEncryptionError);
+
+    const cipher = new AesGcmStorageCipher({
+      provider: xorProvider,
+      keys,
+      currentKeyVersion: 1,
+    });
+    await expect(cipher.decrypt('AQ==.AQ==', 9)).rejects.toThrow(
+      'Unknown key version 9'
+    );
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RNStorage, AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  getStorageMetrics,
+  resetStorageMetrics,
+} from '../src/storage/storage-instrumentation.js';
+
+/** Backend whose reads and writes take `latency` ms of (fake) time. */
+class SlowBackend extends MemoryStorageBackend {
+  latency = 0;
+
+  private tick(): void {
+    vi.advanceTimersByTime(this.latency);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    this.tick();
+    return super.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.tick();
+    return super.setItem(key, value);
+  }
+
+  async multiSet(keyValuePairs: [string, string][]): Promise<void> {
+    this.tick();
+    return super.multiSet(keyValuePairs);
+  }
+}
+
+describe('storage instrumentation', () => {
+  let backend: SlowBackend;
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['performance'] });
+    backend = new SlowBackend();
+    warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetStorageMetrics();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should not time anything unless enabled', async () => {
+    await new RNStorage({ backend }).setItem('a', '1');
+
+    expect(getStorageMetrics()).toEqual([]);
+  });
+
+  it('should aggregate p50 and p95 per operation', async () => {
+    const storage = new RNStorage({
+      backend,
+      instrumentation: { slowThresholdMs: Infinity },
+    });
+
+    for (let latency = 1; latency <= 20; latency++) {
+      backend.latency = latency;
+      await storage.getItem('a');
+    }
+    await storage.setItem('a', '1');
+
+    expect(getStorageMetrics()).toEqual([
+      {
+        operation: 'RNStorage.getItem',
+        count: 20,
+        slowCount: 0,
+        p50: 10,
+        p95: 19,
+        max: 20,
+      },
+      expect.objectContaining({ operation: 'RNStorage.setItem', count: 1 }),
+    ]);
+  });
+
+  it('should log slow operations with key and payload size', async () => {
+    const storage = new RNStorage({
+      backend,
+      instrumentation: { slowThresholdMs: 50 },
+    });
+    backend.latency = 80;
+
+    await storage.setItem('draft', 'héllo');
+    await storage.multiSet([
+      ['a', '12'],
+      ['b', '345'],
+    ]);
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[WARN]',
+      'Slow RNStorage.setItem (80ms) key=draft bytes=6'
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[WARN]',
+      'Slow RNStorage.multiSet (80ms) key=a, b bytes=5'
+    );
+    expect(getStorageMetrics()[0]?.slowCount).toBe(1);
+  });
+
+  it('should time advanced storage once, including scopes', async () => {
+    const storage = new AdvancedRNStorage({ backend, instrumentation: true });
+
+    await storage.scope('account').setItem('token', 'abc', 1000);
+    await storage.getItem('missing');
+
+    expect(getStorageMetrics().map((m) => m.operation)).toEqual([
+      'AdvancedRNStorage.getItem',
+      'AdvancedRNStorage.setItem',
+    ]);
+  });
+
+  it('should report encoded object sizes for the serialized service', async () => {
+    const service = new RNSerializedStorageService({
+      backend,
+      instrumentation: { slowThresholdMs: 10 },
+    });
+    backend.latency = 10;
+
+    await service.setObject('user', { name: 'Al' });
+
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[WARN]',
+      'Slow RNSerializedStorageService.setObject (10ms) key=user bytes=13'
+    );
+    expect(getStorageMetrics().map((m) => m.operation)).toEqual([
+      'RNSerializedStorageService.setObject',
+    ]);
+  });
+
+  it('should not count internal calls as separate operations', async () => {
+    const storage = new RNStorage({
+      backend,
+      chunking: true,
+      instrumentation: true,
+    });
+    const service = new RNSerializedStorageService({
+      backend,
+      instrumentation: true,
+    });
+
+    await storage.multiMerge([['settings', '{"a":1}']]);
+    await service.getObject('settings');
+    await service.update<number>('count', (count) => (count ?? 0) + 1);
+
+    expect(getStorageMetrics().map((m) => m.operation)).toEqual([
+      'RNSerializedStorageService.getObject',
+      'RNSerializedStorageService.update',
+      'RNStorage.multiMerge',
+    ]);
+  });
+
+  it('should record failed operations', async () => {
+    const storage = new RNStorage({ backend, instrumentation: true });
+    vi.spyOn(backend, 'getItem').mockRejectedValueOnce(new Error('boom'));
+
+    await expect(storage.getItem('a')).rejects.toThrow('boom');
+
+    expect(getStorageMetrics()[0]).toMatchObject({
+      operation: 'RNStorage.getItem',
+      count: 1,
+    });
+  });
+});
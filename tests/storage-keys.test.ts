@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import {
+  defineStorageKey,
+  getRegisteredStorageKeys,
+  resetStorageKeyRegistry,
+} from '../src/storage/storage-keys.js';
+import { jsonCodec, stringCodec } from '../src/storage/storage-codec.js';
+
+interface Settings {
+  fontSize: number;
+}
+
+const isSettings = (value: unknown): value is Settings =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Settings).fontSize === 'number';
+
+describe('defineStorageKey', () => {
+  let storage: AdvancedRNStorage;
+
+  beforeEach(() => {
+    storage = new AdvancedRNStorage({ backend: new MemoryStorageBackend() });
+  });
+
+  afterEach(() => {
+    resetStorageKeyRegistry();
+  });
+
+  it('should return the default value until a value is set', async () => {
+    const key = defineStorageKey({ name: 'count', defaultValue: 0, storage });
+
+    expect(await key.get()).toBe(0);
+    await key.set(3);
+    expect(await key.get()).toBe(3);
+    expect(await storage.getItem('count')).toBe('3');
+
+    await key.remove();
+    expect(await key.get()).toBe(0);
+  });
+
+  it('should store the key inside its scope', async () => {
+    const key = defineStorageKey({
+      name: 'theme',
+      scope: 'settings',
+      codec: stringCodec,
+      defaultValue: 'light',
+      storage,
+    });
+
+    await key.set('dark');
+
+    expect(await storage.getItem('settings:theme')).toBe('dark');
+    expect(key.info.key).toBe('settings:theme');
+  });
+
+  it('should apply the TTL on set', async () => {
+    vi.useFakeTimers();
+    try {
+      const key = defineStorageKey({
+        name: 'session',
+        ttl: 1000,
+        defaultValue: null as string | null,
+        storage,
+      });
+      await key.set('abc');
+
+      vi.advanceTimersByTime(1001);
+
+      expect(await key.get()).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should fall back to the default value for corrupt or invalid data', async () => {
+    const key = defineStorageKey({
+      name: 'settings',
+      codec: jsonCodec(isSettings),
+      defaultValue: { fontSize: 14 },
+      storage,
+    });
+
+    await storage.setItem('settings', '{broken');
+    expect(await key.get()).toEqual({ fontSize: 14 });
+    expect((await key.read()).status).toBe('corrupt');
+
+    await storage.setItem('settings', '{"fontSize":"big"}');
+    expect(await key.get()).toEqual({ fontSize: 14 });
+    expect((await key.read()).status).toBe('invalid');
+  });
+
+  it('should notify subscribers with decoded values', async () => {
+    const key = defineStorageKey({ name: 'count', defaultValue: 0, storage });
+    const listener = vi.fn();
+    const unsubscribe = key.subscribe(listener);
+
+    await key.set(5);
+    await vi.waitFor(() => expect(listener).toHaveBeenLastCalledWith(5));
+
+    await storage.removeItem('count');
+    await vi.waitFor(() => expect(listener).toHaveBeenLastCalledWith(0));
+
+    unsubscribe();
+    await key.set(6);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should list declared keys in the registry', () => {
+    defineStorageKey({ name: 'a', defaultValue: 0, storage });
+    defineStorageKey({ name: 'b', scope: 'cache', ttl: 500, defaultValue: 0 });
+
+    expect(getRegisteredStorageKeys()).toEqual([
+      { name: 'a', scope: undefined, key: 'a', ttl: undefined },
+      { name: 'b', scope: 'cache', key: 'cache:b', ttl: 500 },
+    ]);
+  });
+
+  it('should allow identical redeclarations', async () => {
+    defineStorageKey({ name: 'a', defaultValue: { n: 0 }, storage });
+    const again = defineStorageKey({
+      name: 'a',
+      defaultValue: { n: 0 },
+      storage,
+    });
+
+    await again.set({ n: 1 });
+
+    expect(await again.get()).toEqual({ n: 1 });
+    expect(getRegisteredStorageKeys()).toHaveLength(1);
+  });
+
+  it('should reject duplicate and invalid declarations', () => {
+    defineStorageKey({ name: 'a', defaultValue: 0, storage });
+
+    expect(() =>
+      defineStorageKey({ name: 'a', defaultValue: 1, storage })
+    ).toThrow('already defined');
+    expect(() => defineStorageKey({ name: '', defaultValue: 0 })).toThrow();
+    expect(() =>
+      defineStorageKey({ name: 'b', ttl: 0, defaultValue: 0 })
+    ).toThrow('Invalid TTL');
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setAsyncStorageModule } from '../src/storage/storage.rn.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  registerMigration,
+  resetMigrations,
+  getSchemaVersion,
+  StorageMigrationError,
+} from '../src/storage/storage-migrations.js';
+import { createMemoryAsyncStorage } from './helpers/memory-async-storage.js';
+
+const { store, asyncStorage: memoryAsyncStorage } = createMemoryAsyncStorage();
+
+describe('storage migrations', () => {
+  let service: RNSerializedStorageService;
+
+  beforeEach(() => {
+    store.clear();
+    resetMigrations();
+    setAsyncStorageModule(memoryAsyncStorage);
+    service = new RNSerializedStorageService();
+  });
+
+  it('should store bare JSON for keys without migrations', async () => {
+    await service.setObject('settings', { theme: 'dark' });
+    expect(store.get('settings')).toBe('{"theme":"dark"}');
+    expect(getSchemaVersion('settings')).toBe(0);
+  });
+
+  it('should write a versioned envelope for migrated keys', async () => {
+    registerMigration('settings', 0, 1, (data) => data);
+    await service.setObject('settings', { theme: 'dark' });
+    expect(JSON.parse(store.get('settings') ?? '{}')).toEqual({
+      __v: 1,
+      data: { theme: 'dark' },
+    });
+  });
+
+  it('should upgrade unversioned data through the migration chain and write it back', async () => {
+    store.set('settings', JSON.stringify({ dark: true }));
+    registerMigration('settings', 0, 1, (data) => ({
+      theme: (data as { dark: boolean }).dark ? 'dark' : 'light',
+    }));
+    registerMigration('settings', 1, 3, async (data) => ({
+      ...(data as object),
+      fontSize: 'medium',
+    }));
+
+    const result = await service.getObject('settings');
+
+    expect(result).toEqual({ theme: 'dark', fontSize: 'medium' });
+    expect(JSON.parse(store.get('settings') ?? '{}')).toEqual({
+      __v: 3,
+      data: { theme: 'dark', fontSize: 'medium' },
+    });
+  });
+
+  it('should not run migrations for data at the current version', async () => {
+    const migrate = vi.fn((data: unknown) => data);
+    registerMigration('settings', 0, 1, migrate);
+    store.set('settings', JSON.stringify({ __v: 1, data: { a: 1 } }));
+
+    expect(await service.getObject('settings')).toEqual({ a: 1 });
+    expect(migrate).not.toHaveBeenCalled();
+  });
+
+  it('should treat documents with a __v field as plain data', async () => {
+    const migrate = vi.fn((data: unknown) => data);
+    registerMigration('profile', 0, 1, migrate);
+    const doc = { _id: 'a1', __v: 2, data: 'bio' };
+    store.set('profile', JSON.stringify(doc));
+    store.set('counter', JSON.stringify({ __v: 0, data: 1 }));
+
+    expect(await service.getObject('profile')).toEqual(doc);
+    expect(migrate).toHaveBeenCalledWith(doc);
+    expect(await service.getObject('counter')).toEqual({ __v: 0, data: 1 });
+  });
+
+  it('should apply migrations to keys inside a scoped service', async () => {
+    registerMigration('settings', 0, 1, () => ({ migrated: true }));
+    store.set('account:42:settings', JSON.stringify({ old: true }));
+
+    const scoped = service.scope('account:42');
+    expect(await scoped.getObject('settings')).toEqual({ migrated: true });
+  });
+
+  it('should not overwrite a value written while migrating', async () => {
+    store.set('settings', JSON.stringify({ a: 1 }));
+    let release = () => {};
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    registerMigration('settings', 0, 1, async (data) => {
+      await gate;
+      return { ...(data as object), migrated: true };
+    });
+
+    const read = service.getObject('settings');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    await service.setObject('settings', { a: 2 });
+    release();
+
+    expect(await read).toEqual({ a: 1, migrated: true });
+    expect(await service.getObject('settings')).toEqual({ a: 2 });
+  });
+
+  it('should report a failing migration instead of returning null', async () => {
+    store.set('settings', JSON.stringify({ a: 1 }));
+    registerMigration('settings', 0, 1, () => {
+      throw new Error('boom');
+    });
+
+    const error = await service.getObject('settings').catch((e) => e);
+
+    expect(error).toBeInstanceOf(StorageMigrationError);
+    expect(error.key).toBe('settings');
+    expect(error.fromVersion).toBe(0);
+    expect(error.toVersion).toBe(1);
+    expect(error.message).toContain('boom');
+    // Original data is left untouched
+    expect(store.get('settings')).toBe('{"a":1}');
+  });
+
+  it('should report a gap in the migration chain', async () => {
+    registerMigration('settings', 0, 1, (data) => data);
+    registerMigration('settings', 2, 3, (data) => data);
+    store.set('settings', JSON.stringify({ a: 1 }));
+
+    await expect(service.getObject('settings')).rejects.toThrow(
+      'No migration registered for "settings" from version 1'
+    );
+  });
+
+  it('should reject invalid and duplicate registrations', () => {
+    expect(() => registerMigration('k', 2, 1, (d) => d)).toThrow(
+      'Invalid migration'
+    );
+    registerMigration('k', 0, 1, (d) => d);
+    expect(() => registerMigration('k', 0, 2, (d) => d)).toThrow(
+      'already registered'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import {
+  RNStorageService,
+  getActiveUserId,
+  getDeviceStorageService,
+  getStorageService,
+  initializeStorageService,
+  resetStorageService,
+  switchUser,
+  wipeUserData,
+} from '../src/storage/storage-singleton.js';
+
+describe('per-user storage partitions', () => {
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    initializeStorageService(new RNStorageService({ backend }));
+  });
+
+  afterEach(() => {
+    resetStorageService();
+  });
+
+  it('should use the device keyspace when no user is active', async () => {
+    await getStorageService().setItem('theme', 'dark');
+
+    expect(getActiveUserId()).toBeNull();
+    expect(await backend.getAllKeys()).toEqual(['theme']);
+  });
+
+  it('should prefix keys with the active user id', async () => {
+    switchUser('alice');
+    await getStorageService().setItem('drafts', '[]');
+
+    expect(getActiveUserId()).toBe('alice');
+    expect(await backend.getItem('user:alice:drafts')).toBe('[]');
+    expect(await getStorageService().getAllKeys()).toEqual(['drafts']);
+  });
+
+  it('should isolate users and keep device-level keys across switches', async () => {
+    await getDeviceStorageService().setItem('onboardingDone', 'true');
+    switchUser('alice');
+    await getStorageService().setItem('token', 'a');
+
+    switchUser('bob');
+    expect(await getStorageService().getItem('token')).toBeNull();
+    expect(await getDeviceStorageService().getItem('onboardingDone')).toBe(
+      'true'
+    );
+
+    switchUser('alice');
+    expect(await getStorageService().getItem('token')).toBe('a');
+  });
+
+  it('should wipe one partition only', async () => {
+    await getDeviceStorageService().setItem('onboardingDone', 'true');
+    switchUser('alice');
+    await getStorageService().setItem('token', 'a');
+    switchUser('bob');
+    await getStorageService().setItem('token', 'b');
+
+    await wipeUserData('alice');
+
+    expect((await backend.getAllKeys()).sort()).toEqual([
+      'onboardingDone',
+      'user:bob:token',
+    ]);
+  });
+
+  it('should encode ids so partitions cannot nest', async () => {
+    switchUser('alice:x');
+    await getStorageService().setItem('token', 'x');
+    switchUser('alice');
+    await getStorageService().setItem('token', 'a');
+
+    await wipeUserData('alice');
+
+    expect(await backend.getAllKeys()).toEqual(['user:alice%3Ax:token']);
+  });
+
+  it('should leave partitioning on null and reset', async () => {
+    switchUser('alice');
+    switchUser(null);
+    await getStorageService().setItem('theme', 'dark');
+    expect(await backend.getAllKeys()).toEqual(['theme']);
+
+    switchUser('alice');
+    resetStorageService();
+    expect(getActiveUserId()).toBeNull();
+  });
+
+  it('should reject empty user ids', async () => {
+    expect(() => switchUser('')).toThrow('non-empty');
+    await expect(wipeUserData('')).rejects.toThrow('non-empty');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RNStorage, AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import { detectEnvelopeCorruption } from '../src/storage/storage-quarantine.js';
+
+describe('storage quarantine', () => {
+  let backend: MemoryStorageBackend;
+  let storage: AdvancedRNStorage;
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    backend = new MemoryStorageBackend();
+    storage = new AdvancedRNStorage({ backend });
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should quarantine truncated envelopes instead of returning them', async () => {
+    await backend.setItem('session', '{"value":"abc","timesta');
+
+    expect(await storage.getItem('session')).toBeNull();
+    expect(await backend.getItem('session')).toBeNull();
+
+    const [entry] = await storage.getQuarantinedEntries();
+    expect(entry).toMatchObject({
+      key: 'session',
+      value: '{"value":"abc","timesta',
+    });
+    expect(entry?.error).toContain('Invalid JSON');
+  });
+
+  it('should quarantine malformed TTL envelopes', async () => {
+    await backend.setItem('token', '{"value":42,"timestamp":"yesterday"}');
+
+    expect(await storage.multiGet(['token'])).toEqual([['token', null]]);
+    expect(await storage.getQuarantinedEntry('token')).toMatchObject({
+      error: 'Malformed TTL envelope',
+    });
+  });
+
+  it('should keep passing plain values through', async () => {
+    await backend.setItem('legacy', 'plain');
+    await backend.setItem('object', '{"a":1}');
+
+    expect(await storage.getItem('legacy')).toBe('plain');
+    expect(await storage.getItem('object')).toBe('{"a":1}');
+    expect(await storage.getQuarantinedEntries()).toEqual([]);
+  });
+
+  it('should keep legacy strings that merely look like JSON', async () => {
+    await new RNStorage({ backend }).setItem('greeting', '{name} says hi');
+    await backend.setItem('list', '[draft');
+
+    expect(await storage.getItem('greeting')).toBe('{name} says hi');
+    expect(await storage.multiGet(['list'])).toEqual([['list', '[draft']]);
+    expect(await storage.hasItem('greeting')).toBe(true);
+    expect(await backend.getItem('greeting')).toBe('{name} says hi');
+    expect(await storage.getQuarantinedEntries()).toEqual([]);
+  });
+
+  it('should report quarantined entries through the logger', async () => {
+    await backend.setItem('session', '{"value":"x","timest');
+
+    await storage.getItem('session');
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[ERROR]',
+      expect.stringContaining('Quarantined corrupt entry "session"')
+    );
+  });
+
+  it('should treat corrupt entries as missing in hasItem', async () => {
+    await backend.setItem('session', '{"value":[1, 2');
+
+    expect(await storage.hasItem('session')).toBe(false);
+    expect(await storage.getQuarantinedEntries()).toHaveLength(1);
+  });
+
+  it('should record the full key of scoped entries', async () => {
+    await backend.setItem('account:42:draft', '{"value":"oops');
+
+    expect(await storage.scope('account:42').getItem('draft')).toBeNull();
+    expect(
+      (await storage.getQuarantinedEntries()).map((entry) => entry.key)
+    ).toEqual(['account:42:draft']);
+  });
+
+  it('should hide quarantine records from getAllKeys', async () => {
+    await backend.setItem('session', '{"value":');
+    await storage.setItem('theme', 'dark');
+    await storage.getItem('session');
+
+    expect(await storage.getAllKeys()).toEqual(['theme']);
+  });
+
+  it('should purge selected or all records', async () => {
+    await backend.setItem('a', '{"value":1');
+    await backend.setItem('b', '{"value":2');
+    await storage.multiGet(['a', 'b']);
+
+    expect(await storage.purgeQuarantine(['a'])).toBe(1);
+    expect(
+      (await storage.getQuarantinedEntries()).map((entry) => entry.key)
+    ).toEqual(['b']);
+
+    expect(await storage.purgeQuarantine()).toBe(1);
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+
+  it('should quarantine undecodable serialized envelopes', async () => {
+    const service = new RNSerializedStorageService({ backend });
+    await backend.setItem('settings', '{"$rich":1,"v":{"a"');
+
+    const result = await service.readObject('settings');
+
+    expect(result.status).toBe('corrupt');
+    expect(await backend.getItem('settings')).toBeNull();
+    expect(await service.getQuarantinedEntry('settings')).toMatchObject({
+      value: '{"$rich":1,"v":{"a"',
+    });
+  });
+
+  it('should leave undecodable plain values in place', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = new RNSerializedStorageService({ backend });
+    await new RNStorage({ backend }).setItem('theme', 'dark');
+
+    expect(await service.getObject('theme')).toBeNull();
+    expect((await service.readObject('theme')).status).toBe('corrupt');
+    expect(await backend.getItem('theme')).toBe('dark');
+    expect(await service.getQuarantinedEntries()).toEqual([]);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('[Storage]'),
+      '[WARN]',
+      'Stored value for "theme" cannot be decoded'
+    );
+  });
+
+  it('should store large records in chunks when chunking is enabled', async () => {
+    const chunked = new RNStorage({
+      backend,
+      chunking: { maxValueBytes: 32 },
+    });
+    await backend.setItem('big', `{${'x'.repeat(100)}`);
+
+    await chunked.quarantine('big', new Error('bad'));
+
+    expect((await chunked.getQuarantinedEntry('big'))?.value).toBe(
+      `{${'x'.repeat(100)}`
+    );
+    expect(await chunked.purgeQuarantine(['big'])).toBe(1);
+    expect(await backend.getAllKeys()).toEqual([]);
+  });
+});
+
+describe('detectEnvelopeCorruption', () => {
+  it('should only flag values shaped like a TTL envelope', () => {
+    expect(detectEnvelopeCorruption('plain')).toBeNull();
+    expect(detectEnvelopeCorruption('{"a":1}')).toBeNull();
+    expect(detectEnvelopeCorruption('[1,2]')).toBeNull();
+    expect(detectEnvelopeCorruption('{"a":')).toBeNull();
+    expect(detectEnvelopeCorruption('{name} says hi')).toBeNull();
+    expect(detectEnvelopeCorruption('{"value":"a')).toContain('Invalid JSON');
+    expect(detectEnvelopeCorruption('{"value":"x","timestamp":null}')).toBe(
+      'Malformed TTL envelope'
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RNStorage, AdvancedRNStorage } from '../src/storage/storage.rn.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
+import {
+  StorageSnapshotError,
+  type StorageSnapshot,
+} from '../src/storage/storage-snapshot.js';
+
+describe('storage snapshots', () => {
+  let source: AdvancedRNStorage;
+  let target: AdvancedRNStorage;
+
+  beforeEach(() => {
+    source = new AdvancedRNStorage({ backend: new MemoryStorageBackend() });
+    target = new AdvancedRNStorage({ backend: new MemoryStorageBackend() });
+  });
+
+  it('should round-trip keys, values and TTLs', async () => {
+    await source.setItem('theme', 'dark');
+    await source.setItem('session', 'abc', 60000);
+
+    const snapshot = await source.exportSnapshot();
+    const written = await target.importSnapshot(
+      JSON.parse(JSON.stringify(snapshot))
+    );
+
+    expect(written).toBe(2);
+    expect(await target.getItem('theme')).toBe('dark');
+    expect(await target.getItem('session')).toBe('abc');
+    const session = snapshot.entries.find((entry) => entry.key === 'session');
+    expect(session?.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should apply include and exclude patterns', async () => {
+    await source.setItem('settings:theme', 'dark');
+    await source.setItem('settings:token', 'secret');
+    await source.setItem('cache:feed', '[]');
+
+    const snapshot = await source.exportSnapshot({
+      include: ['^settings:'],
+      exclude: [/token/],
+    });
+
+    expect(snapshot.entries.map((entry) => entry.key)).toEqual([
+      'settings:theme',
+    ]);
+  });
+
+  it('should apply global regex filters to every key', async () => {
+    await source.setItem('auth:a', '1');
+    await source.setItem('auth:b', '2');
+    await source.setItem('auth:c', '3');
+    await source.setItem('theme', 'dark');
+
+    const snapshot = await source.exportSnapshot({ exclude: [/^auth:/g] });
+
+    expect(snapshot.entries.map((entry) => entry.key)).toEqual(['theme']);
+  });
+
+  it('should skip expired entries', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem(
+      'old',
+      JSON.stringify({ value: 'x', timestamp: 0, ttl: 1 })
+    );
+
+    const snapshot = await new RNStorage({ backend }).exportSnapshot();
+
+    expect(snapshot.entries).toEqual([]);
+  });
+
+  it('should keep other keys in merge mode and drop them in replace mode', async () => {
+    await source.setItem('a', '1');
+    const snapshot = await source.exportSnapshot();
+    await target.setItem('b', '2');
+
+    await target.importSnapshot(snapshot);
+    expect(await target.getAllKeys()).toEqual(['b', 'a']);
+
+    await target.importSnapshot(snapshot, { mode: 'replace' });
+    expect(await target.getAllKeys()).toEqual(['a']);
+  });
+
+  it('should only replace keys covered by the export filters', async () => {
+    await source.setItem('settings:theme', 'dark');
+    const snapshot = await source.exportSnapshot({
+      include: [/^SETTINGS:/i],
+      exclude: ['token'],
+    });
+    const backend = new MemoryStorageBackend();
+    const storage = new AdvancedRNStorage({ backend });
+    await storage.setItem('settings:locale', 'en');
+    await storage.setItem('settings:token', 'secret');
+    await storage.setItem('auth:session', 'abc');
+    const clearSpy = vi.spyOn(backend, 'clear');
+
+    await storage.importSnapshot(JSON.parse(JSON.stringify(snapshot)), {
+      mode: 'replace',
+    });
+
+    expect(clearSpy).not.toHaveBeenCalled();
+    expect((await storage.getAllKeys()).sort()).toEqual([
+      'auth:session',
+      'settings:theme',
+      'settings:token',
+    ]);
+  });
+
+  it('should restore into a scope relative to its namespace', async () => {
+    await source.setItem('a', '1');
+    const backend = new MemoryStorageBackend();
+
+    await new RNStorage({ backend })
+      .scope('restored')
+      .importSnapshot(await source.exportSnapshot());
+
+    expect(await backend.getAllKeys()).toEqual(['restored:a']);
+  });
+
+  it('should reject a tampered snapshot without writing anything', async () => {
+    await source.setItem('a', '1');
+    await source.setItem('b', '2');
+    const snapshot: StorageSnapshot = await source.exportSnapshot();
+    snapshot.entries.pop();
+    await target.setItem('keep', 'me');
+
+    await expect(
+      target.importSnapshot(snapshot, { mode: 'replace' })
+    ).rejects.toThrow('checksum');
+    expect(await target.getAllKeys()).toEqual(['keep']);
+  });
+
+  it('should reject documents that are not snapshots', async () => {
+    await expect(target.importSnapshot({ entries: [] })).rejects.toBeInstanceOf(
+      StorageSnapshotError
+    );
+    await expect(
+      target.importSnapshot({
+        ...(await source.exportSnapshot()),
+        version: 99,
+      })
+    ).rejects.toThrow('Unsupported snapshot version');
+    await expect(
+      target.importSnapshot({
+        ...(await source.exportSnapshot({ include: ['a'] })),
+        include: [{ source: '(', flags: '' }],
+      })
+    ).rejects.toThrow('filters are malformed');
+  });
+
+  it('should reject a snapshot whose filters were edited', async () => {
+    const snapshot = await source.exportSnapshot({ include: ['^a'] });
+
+    await expect(
+      target.importSnapshot({
+        ...snapshot,
+        include: [{ source: '', flags: '' }],
+      })
+    ).rejects.toThrow('checksum');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setAsyncStorageModule } from '../src/storage/storage.rn.js';
+import { RNSerializedStorageService } from '../src/storage/storage-singleton.js';
+import {
+  StorageValidationError,
+  type StorageSchema,
+} from '../src/storage/storage-validation.js';
+import { createMemoryAsyncStorage } from './helpers/memory-async-storage.js';
+
+const { store, asyncStorage: memoryAsyncStorage } = createMemoryAsyncStorage();
+
+interface Settings {
+  theme: 'light' | 'dark';
+}
+
+const isSettings = (value: unknown): value is Settings =>
+  typeof value === 'object' &&
+  value !== null &&
+  ((value as Settings).theme === 'light' ||
+    (value as Settings).theme === 'dark');
+
+// zod-style schema that also transforms its input
+const settingsSchema: StorageSchema<Settings & { parsed: true }> = {
+  parse(value) {
+    if (!isSettings(value)) throw new Error('Expected { theme }');
+    return { ...value, parsed: true };
+  },
+};
+
+describe('RNSerializedStorageService typed reads', () => {
+  let service: RNSerializedStorageService;
+
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+    service = new RNSerializedStorageService();
+  });
+
+  describe('getObject with a validator', () => {
+    it('should return the value when the guard passes', async () => {
+      await service.setObject('settings', { theme: 'dark' });
+      expect(await service.getObject('settings', isSettings)).toEqual({
+        theme: 'dark',
+      });
+    });
+
+    it('should return null when the guard fails', async () => {
+      await service.setObject('settings', { theme: 'blue' });
+      expect(await service.getObject('settings', isSettings)).toBeNull();
+    });
+
+    it('should return the output of a schema parse', async () => {
+      await service.setObject('settings', { theme: 'light' });
+      expect(await service.getObject('settings', settingsSchema)).toEqual({
+        theme: 'light',
+        parsed: true,
+      });
+    });
+  });
+
+  describe('readObject', () => {
+    it('should report missing keys', async () => {
+      expect(await service.readObject('settings', isSettings)).toEqual({
+        status: 'missing',
+      });
+    });
+
+    it('should report corrupt data', async () => {
+      store.set('settings', '{not json');
+      const result = await service.readObject('settings', isSettings);
+      expect(result.status).toBe('corrupt');
+    });
+
+    it('should report invalid shapes with the schema error', async () => {
+      await service.setObject('settings', { theme: 42 });
+      const result = await service.readObject('settings', settingsSchema);
+
+      expect(result.status).toBe('invalid');
+      if (result.status === 'invalid') {
+        expect(result.error).toBeInstanceOf(StorageValidationError);
+        expect(result.error.message).toContain('Expected { theme }');
+      }
+    });
+
+    it('should return ok without a validator', async () => {
+      await service.setObject('count', 3);
+      expect(await service.readObject('count')).toEqual({
+        status: 'ok',
+        value: 3,
+      });
+    });
+  });
+});
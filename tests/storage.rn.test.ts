@@ -1,9 +1,14 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   RNStorage,
   AdvancedRNStorage,
   setAsyncStorageModule,
+  StorageQuotaExceededError,
+  subscribeToStorageWarnings,
+  isStorageDegraded,
 } from '../src/storage/storage.rn.js';
+import { RNStorageService } from '../src/storage/storage-singleton.js';
+import { MemoryStorageBackend } from '../src/storage/storage-backends.js';
 
 // Create mock AsyncStorage
 const mockAsyncStorage = {
@@ -176,3 +181,933 @@ describe('AdvancedRNStorage', () => {
     });
   });
 });
+
+describe('storage scopes', () => {
+  beforeEach(() => {
+    setAsyncStorageModule(mockAsyncStorage);
+    vi.clearAllMocks();
+  });
+
+  it('should prefix keys with the namespace', async () => {
+    const scoped = new RNStorage().scope('account:42');
+    mockAsyncStorage.getItem.mockResolvedValueOnce('abc');
+
+    await scoped.setItem('token', 'abc');
+    const result = await scoped.getItem('token');
+    await scoped.removeItem('token');
+
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      'account:42:token',
+      'abc'
+    );
+    expect(mockAsyncStorage.getItem).toHaveBeenCalledWith('account:42:token');
+    expect(mockAsyncStorage.removeItem).toHaveBeenCalledWith(
+      'account:42:token'
+    );
+    expect(result).toBe('abc');
+  });
+
+  it('should only list keys inside the namespace', async () => {
+    mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+      'account:42:token',
+      'account:42:cache:inbox',
+      'account:7:token',
+      'theme',
+    ]);
+
+    const keys = await new RNStorage().scope('account:42').getAllKeys();
+    expect(keys).toEqual(['token', 'cache:inbox']);
+  });
+
+  it('should clear only the namespace', async () => {
+    mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+      'account:42:token',
+      'account:7:token',
+      'theme',
+    ]);
+
+    await new RNStorage().scope('account:42').clear();
+
+    expect(mockAsyncStorage.clear).not.toHaveBeenCalled();
+    expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith([
+      'account:42:token',
+    ]);
+  });
+
+  it('should nest scopes', async () => {
+    const nested = new RNStorage().scope('account:42').scope('drafts');
+    expect(nested.namespace).toBe('account:42:drafts');
+
+    await nested.setItem('d1', 'hello');
+    expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+      'account:42:drafts:d1',
+      'hello'
+    );
+  });
+
+  it('should reject an empty namespace', () => {
+    expect(() => new RNStorage().scope('')).toThrow(
+      'Storage namespace must be a non-empty string'
+    );
+  });
+
+  it('should match clearPattern against keys relative to the namespace', async () => {
+    mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+      'account:42:cache:a',
+      'account:42:token',
+      'account:7:cache:a',
+      'cache:b',
+    ]);
+
+    await new AdvancedRNStorage().scope('account:42').clearPattern('^cache:');
+
+    expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith([
+      'account:42:cache:a',
+    ]);
+  });
+
+  it('should not clear the whole app from a scoped clearPattern()', async () => {
+    mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+      'account:42:token',
+      'theme',
+    ]);
+
+    await new AdvancedRNStorage().scope('account:42').clearPattern();
+
+    expect(mockAsyncStorage.clear).not.toHaveBeenCalled();
+    expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith([
+      'account:42:token',
+    ]);
+  });
+});
+
+describe('batch operations', () => {
+  const store = new Map<string, string>();
+  const fallbackAsyncStorage = {
+    setItem: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    getItem: vi.fn(async (key: string) => store.get(key) ?? null),
+    removeItem: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    clear: vi.fn(async () => store.clear()),
+    getAllKeys: vi.fn(async () => [...store.keys()]),
+    multiRemove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    }),
+  };
+  const batchAsyncStorage = {
+    ...fallbackAsyncStorage,
+    multiGet: vi.fn(async (keys: readonly string[]) =>
+      keys.map((key): [string, string | null] => [key, store.get(key) ?? null])
+    ),
+    multiSet: vi.fn(async (pairs: [string, string][]) => {
+      pairs.forEach(([key, value]) => store.set(key, value));
+    }),
+    multiMerge: vi.fn(async () => {}),
+  };
+
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+  });
+
+  describe('RNStorage', () => {
+    it('should use native multiGet and keep key order', async () => {
+      setAsyncStorageModule(batchAsyncStorage);
+      store.set('b', '2');
+      store.set('a', '1');
+
+      const result = await new RNStorage().multiGet(['a', 'missing', 'b']);
+
+      expect(result).toEqual([
+        ['a', '1'],
+        ['missing', null],
+        ['b', '2'],
+      ]);
+      expect(batchAsyncStorage.multiGet).toHaveBeenCalledTimes(1);
+      expect(batchAsyncStorage.getItem).not.toHaveBeenCalled();
+    });
+
+    it('should use native multiSet and multiMerge with prefixed keys', async () => {
+      setAsyncStorageModule(batchAsyncStorage);
+      const scoped = new RNStorage().scope('acct');
+
+      await scoped.multiSet([['theme', 'dark']]);
+      await scoped.multiMerge([['settings', '{"a":1}']]);
+
+      expect(batchAsyncStorage.multiSet).toHaveBeenCalledWith([
+        ['acct:theme', 'dark'],
+      ]);
+      expect(batchAsyncStorage.multiMerge).toHaveBeenCalledWith([
+        ['acct:settings', '{"a":1}'],
+      ]);
+    });
+
+    it('should fall back to per-key calls without batch APIs', async () => {
+      setAsyncStorageModule(fallbackAsyncStorage);
+      const storage = new RNStorage();
+
+      await storage.multiSet([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+      const result = await storage.multiGet(['a', 'b']);
+
+      expect(fallbackAsyncStorage.setItem).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+    });
+
+    it('should deep-merge JSON in the fallback merge path', async () => {
+      setAsyncStorageModule(fallbackAsyncStorage);
+      store.set(
+        'settings',
+        JSON.stringify({ theme: 'dark', notify: { email: true, push: true } })
+      );
+
+      await new RNStorage().multiMerge([
+        ['settings', '{"notify":{"push":false},"tags":["x"]}'],
+        ['fresh', '{"a":1}'],
+      ]);
+
+      expect(JSON.parse(store.get('settings') ?? '{}')).toEqual({
+        theme: 'dark',
+        notify: { email: true, push: false },
+        tags: ['x'],
+      });
+      expect(store.get('fresh')).toBe('{"a":1}');
+    });
+  });
+
+  describe('AdvancedRNStorage', () => {
+    it('should store per-entry TTLs with multiSet', async () => {
+      setAsyncStorageModule(batchAsyncStorage);
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+
+      await new AdvancedRNStorage().multiSet([
+        ['cache', 'x', 1000],
+        ['pref', 'y'],
+      ]);
+
+      expect(batchAsyncStorage.multiSet).toHaveBeenCalledWith([
+        ['cache', JSON.stringify({ value: 'x', timestamp: now, ttl: 1000 })],
+        ['pref', JSON.stringify({ value: 'y', timestamp: now })],
+      ]);
+    });
+
+    it('should return null for expired entries and remove them in one batch', async () => {
+      setAsyncStorageModule(batchAsyncStorage);
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      store.set(
+        'old',
+        JSON.stringify({ value: 'a', timestamp: now - 5000, ttl: 1000 })
+      );
+      store.set('fresh', JSON.stringify({ value: 'b', timestamp: now }));
+      store.set('legacy', 'plain');
+
+      const result = await new AdvancedRNStorage().multiGet([
+        'old',
+        'fresh',
+        'legacy',
+      ]);
+
+      expect(result).toEqual([
+        ['old', null],
+        ['fresh', 'b'],
+        ['legacy', 'plain'],
+      ]);
+      expect(batchAsyncStorage.multiRemove).toHaveBeenCalledWith(['old']);
+    });
+
+    it('should merge inside the envelope and keep the TTL', async () => {
+      setAsyncStorageModule(batchAsyncStorage);
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      store.set(
+        'settings',
+        JSON.stringify({
+          value: '{"theme":"dark"}',
+          timestamp: now - 100,
+          ttl: 60000,
+        })
+      );
+
+      await new AdvancedRNStorage().multiMerge([
+        ['settings', '{"locale":"en"}'],
+      ]);
+
+      expect(batchAsyncStorage.multiMerge).not.toHaveBeenCalled();
+      expect(JSON.parse(store.get('settings') ?? '{}')).toEqual({
+        value: '{"theme":"dark","locale":"en"}',
+        timestamp: now - 100,
+        ttl: 60000,
+      });
+    });
+  });
+});
+
+describe('read cache', () => {
+  const store = new Map<string, string>();
+  const countingAsyncStorage = {
+    setItem: vi.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    getItem: vi.fn(async (key: string) => store.get(key) ?? null),
+    removeItem: vi.fn(async (key: string) => {
+      store.delete(key);
+    }),
+    clear: vi.fn(async () => store.clear()),
+    getAllKeys: vi.fn(async () => [...store.keys()]),
+    multiRemove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    }),
+  };
+
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(countingAsyncStorage);
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('should be disabled by default', async () => {
+    const storage = new RNStorage();
+    await storage.setItem('a', '1');
+    await storage.getItem('a');
+    expect(storage.getCacheStats()).toBeNull();
+    expect(countingAsyncStorage.getItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve repeated reads from memory and count hits/misses', async () => {
+    const storage = new RNStorage({ cache: { maxEntries: 10 } });
+    store.set('account', '42');
+
+    expect(await storage.getItem('account')).toBe('42');
+    expect(await storage.getItem('account')).toBe('42');
+    expect(await storage.getItem('account')).toBe('42');
+
+    expect(countingAsyncStorage.getItem).toHaveBeenCalledTimes(1);
+    expect(storage.getCacheStats()).toEqual({
+      hits: 2,
+      misses: 1,
+      size: 1,
+      maxEntries: 10,
+    });
+  });
+
+  it('should write through and invalidate on remove and clear', async () => {
+    const storage = new RNStorage({ cache: { maxEntries: 10 } });
+
+    await storage.setItem('a', '1');
+    expect(await storage.getItem('a')).toBe('1');
+    expect(countingAsyncStorage.getItem).not.toHaveBeenCalled();
+
+    await storage.removeItem('a');
+    expect(await storage.getItem('a')).toBeNull();
+
+    await storage.setItem('b', '2');
+    await storage.clear();
+    expect(await storage.getItem('b')).toBeNull();
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const storage = new RNStorage({ cache: { maxEntries: 2 } });
+    await storage.setItem('a', '1');
+    await storage.setItem('b', '2');
+    await storage.getItem('a'); // 'b' is now least recently used
+    await storage.setItem('c', '3');
+
+    vi.clearAllMocks();
+    await storage.getItem('a');
+    await storage.getItem('c');
+    await storage.getItem('b');
+    expect(countingAsyncStorage.getItem).toHaveBeenCalledTimes(1);
+    expect(countingAsyncStorage.getItem).toHaveBeenCalledWith('b');
+  });
+
+  it('should share the cache with scopes', async () => {
+    const storage = new RNStorage({ cache: { maxEntries: 10 } });
+    await storage.setItem('acct:token', 'old');
+    await storage.scope('acct').setItem('token', 'new');
+
+    expect(await storage.getItem('acct:token')).toBe('new');
+  });
+
+  it('should stay coherent with clearPattern and respect TTL expiry', async () => {
+    const storage = new AdvancedRNStorage({ cache: { maxEntries: 10 } });
+    const now = Date.now();
+    const nowSpy = vi.spyOn(Date, 'now').mockReturnValue(now);
+
+    await storage.setItem('cache:a', 'x', 1000);
+    await storage.setItem('keep', 'y');
+    expect(await storage.getItem('cache:a')).toBe('x');
+
+    nowSpy.mockReturnValue(now + 5000);
+    expect(await storage.getItem('cache:a')).toBeNull();
+
+    await storage.setItem('cache:b', 'z');
+    await storage.clearPattern('^cache:');
+    expect(await storage.getItem('cache:b')).toBeNull();
+    expect(await storage.getItem('keep')).toBe('y');
+    expect(storage.getCacheStats()?.hits).toBeGreaterThan(0);
+  });
+
+  it('should not cache a read that a concurrent write overtook', async () => {
+    const backend = new MemoryStorageBackend();
+    await backend.setItem('theme', 'old');
+    const storage = new RNStorage({ backend, cache: { maxEntries: 10 } });
+
+    // Hold reads until the write has landed
+    let releaseRead!: () => void;
+    const readGate = new Promise<void>((resolve) => {
+      releaseRead = resolve;
+    });
+    const getItem = backend.getItem.bind(backend);
+    vi.spyOn(backend, 'getItem').mockImplementation(async (key) => {
+      const value = await getItem(key);
+      await readGate;
+      return value;
+    });
+
+    const staleRead = storage.getItem('theme');
+    const staleMultiRead = storage.multiGet(['theme']);
+    await storage.setItem('theme', 'new');
+    releaseRead();
+
+    expect(await staleRead).toBe('old');
+    expect(await staleMultiRead).toEqual([['theme', 'old']]);
+    expect(await storage.getItem('theme')).toBe('new');
+    expect(await storage.multiGet(['theme'])).toEqual([['theme', 'new']]);
+  });
+
+  it('should reject invalid cache sizes', () => {
+    expect(() => new RNStorage({ cache: { maxEntries: 0 } })).toThrow(
+      'Cache maxEntries must be a positive integer'
+    );
+  });
+});
+
+describe('change subscriptions', () => {
+  const store = new Map<string, string>();
+  const memoryAsyncStorage = {
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    getItem: async (key: string) => store.get(key) ?? null,
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    clear: async () => store.clear(),
+    getAllKeys: async () => [...store.keys()],
+    multiRemove: async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    },
+  };
+
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+    vi.restoreAllMocks();
+  });
+
+  it('should notify exact-key subscribers on set and remove', async () => {
+    const storage = new AdvancedRNStorage();
+    const listener = vi.fn();
+    const unsub = storage.subscribe('theme', listener);
+
+    await storage.setItem('theme', 'dark');
+    await storage.setItem('locale', 'en');
+    await storage.removeItem('theme');
+    unsub();
+    await storage.setItem('theme', 'light');
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: 'set', key: 'theme' }],
+      [{ type: 'remove', key: 'theme' }],
+    ]);
+  });
+
+  it('should see writes made through other instances', async () => {
+    const listener = vi.fn();
+    new RNStorage().subscribe('token', listener);
+
+    await new AdvancedRNStorage().setItem('token', 'abc');
+    expect(listener).toHaveBeenCalledWith({ type: 'set', key: 'token' });
+  });
+
+  it('should match patterns relative to the namespace', async () => {
+    const listener = vi.fn();
+    new AdvancedRNStorage().scope('acct').subscribe(/^cache:/, listener);
+
+    await new RNStorage().setItem('acct:cache:inbox', '1');
+    await new RNStorage().setItem('cache:inbox', '1');
+    await new RNStorage().setItem('acct:token', '1');
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: 'set', key: 'cache:inbox' }],
+    ]);
+  });
+
+  it('should match global regex patterns on every change', async () => {
+    const storage = new RNStorage();
+    const listener = vi.fn();
+    storage.subscribe(/^auth:/g, listener);
+
+    await storage.setItem('auth:a', '1');
+    await storage.setItem('auth:b', '1');
+    await storage.setItem('auth:c', '1');
+
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fire on clearPattern, scoped clear and full clear', async () => {
+    const storage = new AdvancedRNStorage();
+    const listener = vi.fn();
+    storage.subscribe(/.*/, listener);
+    store.set('cache:a', '1');
+    store.set('acct:b', '1');
+    store.set('keep', '1');
+
+    await storage.clearPattern('^cache:');
+    await storage.scope('acct').clear();
+    await storage.clear();
+
+    expect(listener.mock.calls).toEqual([
+      [{ type: 'remove', key: 'cache:a' }],
+      [{ type: 'remove', key: 'acct:b' }],
+      [{ type: 'clear', key: null }],
+    ]);
+  });
+
+  it('should report TTL expiry on read as a removal', async () => {
+    const storage = new AdvancedRNStorage();
+    const listener = vi.fn();
+    storage.subscribe('session', listener);
+    store.set(
+      'session',
+      JSON.stringify({ value: 'x', timestamp: Date.now() - 5000, ttl: 1000 })
+    );
+
+    await storage.getItem('session');
+    expect(listener).toHaveBeenCalledWith({ type: 'remove', key: 'session' });
+  });
+});
+
+describe('expiry sweeping', () => {
+  const store = new Map<string, string>();
+  const memoryAsyncStorage = {
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    getItem: async (key: string) => store.get(key) ?? null,
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    clear: async () => store.clear(),
+    getAllKeys: async () => [...store.keys()],
+    multiRemove: vi.fn(async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    }),
+  };
+
+  const expired = (value: string) =>
+    JSON.stringify({ value, timestamp: Date.now() - 10000, ttl: 1000 });
+
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('should remove expired entries and report reclaimed bytes', async () => {
+    store.set('cache:a', expired('x'));
+    store.set('cache:b', expired('é'));
+    store.set(
+      'fresh',
+      JSON.stringify({ value: 'y', timestamp: Date.now(), ttl: 60000 })
+    );
+    store.set('legacy', 'plain');
+    const expectedBytes =
+      'cache:a'.length +
+      expired('x').length +
+      'cache:b'.length +
+      expired('é').length +
+      1; // 'é' takes two UTF-8 bytes
+
+    const result = await new AdvancedRNStorage().purgeExpired();
+
+    expect(result).toEqual({
+      scanned: 4,
+      removed: 2,
+      reclaimedBytes: expectedBytes,
+    });
+    expect([...store.keys()]).toEqual(['fresh', 'legacy']);
+  });
+
+  it('should remove entries in batches', async () => {
+    for (let i = 0; i < 5; i++) store.set(`k${i}`, expired('x'));
+
+    const result = await new AdvancedRNStorage().purgeExpired({
+      batchSize: 2,
+    });
+
+    expect(result.removed).toBe(5);
+    expect(memoryAsyncStorage.multiRemove).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject invalid batch sizes', async () => {
+    const storage = new AdvancedRNStorage();
+
+    for (const batchSize of [0, -1, 1.5, NaN]) {
+      await expect(storage.purgeExpired({ batchSize })).rejects.toThrow(
+        'batchSize'
+      );
+    }
+    expect(() => storage.startExpirySweeper({ batchSize: 0 })).toThrow(
+      'batchSize'
+    );
+  });
+
+  it('should sweep on start and periodically until stopped', async () => {
+    vi.useFakeTimers();
+    try {
+      const storage = new AdvancedRNStorage();
+      const onSweep = vi.fn();
+      store.set('a', expired('x'));
+
+      const stop = storage.startExpirySweeper({ intervalMs: 1000, onSweep });
+      await vi.advanceTimersByTimeAsync(0);
+      expect(onSweep).toHaveBeenCalledWith({
+        scanned: 1,
+        removed: 1,
+        reclaimedBytes: expect.any(Number),
+      });
+
+      store.set('b', expired('x'));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(onSweep).toHaveBeenCalledTimes(2);
+      expect(store.has('b')).toBe(false);
+
+      stop();
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(onSweep).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should report sweep failures', async () => {
+    const storage = new AdvancedRNStorage();
+    const onError = vi.fn();
+    vi.spyOn(storage, 'purgeExpired').mockRejectedValueOnce(new Error('boom'));
+
+    storage.startExpirySweeper({ onError });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).toHaveBeenCalledWith(new Error('boom'));
+  });
+});
+
+describe('storage budget', () => {
+  const store = new Map<string, string>();
+  const memoryAsyncStorage = {
+    setItem: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    getItem: async (key: string) => store.get(key) ?? null,
+    removeItem: async (key: string) => {
+      store.delete(key);
+    },
+    clear: async () => store.clear(),
+    getAllKeys: async () => [...store.keys()],
+    multiRemove: async (keys: string[]) => {
+      keys.forEach((key) => store.delete(key));
+    },
+  };
+
+  const envelope = (value: string, timestamp: number) =>
+    JSON.stringify({ value, timestamp });
+  const entryBytes = (key: string, value: string, timestamp: number) =>
+    key.length + envelope(value, timestamp).length;
+
+  beforeEach(() => {
+    store.clear();
+    setAsyncStorageModule(memoryAsyncStorage);
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report total bytes, key count and per-prefix usage', async () => {
+    store.set('user:name', 'Ada');
+    store.set('user:é', 'x');
+    store.set('theme', 'dark');
+
+    const stats = await new RNStorage().getStorageStats();
+
+    expect(stats).toEqual({
+      totalBytes: 12 + 8 + 9, // 'é' takes two UTF-8 bytes
+      keyCount: 3,
+      byPrefix: {
+        user: { bytes: 12 + 8, keyCount: 2 },
+        '': { bytes: 9, keyCount: 1 },
+      },
+    });
+  });
+
+  it('should only count keys inside a scope', async () => {
+    store.set('app:a', '1');
+    store.set('other', '2');
+
+    const stats = await new RNStorage().scope('app').getStorageStats();
+
+    expect(stats.keyCount).toBe(1);
+    expect(stats.totalBytes).toBe('app:a'.length + 1);
+  });
+
+  it('should evict the oldest entries when a write exceeds the budget', async () => {
+    store.set('a', envelope('1', 1000));
+    store.set('b', envelope('2', 2000));
+    const maxBytes =
+      entryBytes('b', '2', 2000) + entryBytes('c', '3', 1_000_000);
+    const storage = new AdvancedRNStorage({
+      budget: { maxBytes, evictionPolicy: 'oldest' },
+    });
+
+    await storage.setItem('c', '3');
+
+    expect([...store.keys()]).toEqual(['b', 'c']);
+  });
+
+  it('should evict least recently used entries by default', async () => {
+    const storage = new AdvancedRNStorage({
+      budget: {
+        maxBytes:
+          entryBytes('a', '1', 1_000_000) + entryBytes('c', '3', 1_000_002),
+      },
+    });
+    await storage.setItem('a', '1');
+    vi.setSystemTime(1_000_001);
+    await storage.setItem('b', '2');
+    vi.setSystemTime(1_000_002);
+    await storage.getItem('a');
+
+    await storage.setItem('c', '3');
+
+    expect(store.has('a')).toBe(true);
+    expect(store.has('b')).toBe(false);
+    expect(store.has('c')).toBe(true);
+  });
+
+  it('should never evict protected prefixes', async () => {
+    store.set('auth:token', envelope('secret', 1000));
+    store.set('cache:x', envelope('1', 2000));
+    const storage = new AdvancedRNStorage({
+      budget: {
+        maxBytes:
+          entryBytes('auth:token', 'secret', 1000) +
+          entryBytes('cache:y', '2', 1_000_000),
+        protectedPrefixes: ['auth:'],
+      },
+    });
+
+    await storage.setItem('cache:y', '2');
+
+    expect(store.has('auth:token')).toBe(true);
+    expect(store.has('cache:x')).toBe(false);
+  });
+
+  it('should throw when the write cannot fit', async () => {
+    store.set('auth:token', envelope('secret', 1000));
+    const storage = new AdvancedRNStorage({
+      budget: { maxBytes: 40, protectedPrefixes: ['auth:'] },
+    });
+
+    await expect(storage.setItem('cache:y', '2')).rejects.toBeInstanceOf(
+      StorageQuotaExceededError
+    );
+    expect(store.has('auth:token')).toBe(true);
+    expect(store.has('cache:y')).toBe(false);
+  });
+
+  it('should account for writes made by other instances', async () => {
+    const storage = new AdvancedRNStorage({
+      budget: {
+        maxBytes:
+          entryBytes('a', '1', 1_000_000) + entryBytes('b', '2', 1_000_000),
+        evictionPolicy: 'oldest',
+      },
+    });
+    await storage.setItem('a', '1');
+    await new RNStorage().setItem('x', envelope('big', 0));
+
+    await storage.setItem('b', '2');
+
+    expect(store.has('x')).toBe(false);
+    expect(store.has('a')).toBe(true);
+  });
+});
+
+describe('degraded mode', () => {
+  // The AsyncStorage package is not installed in the test environment, so
+  // resetting the injected module makes the native load fail
+  beforeEach(() => {
+    setAsyncStorageModule(null);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report AsyncStorage as unavailable', async () => {
+    const service = new RNStorageService();
+
+    expect(service.isAvailable()).toBe(false);
+    expect(service.isDegraded()).toBe(false);
+    await expect(service.setItem('key', 'value')).rejects.toThrow(
+      'AsyncStorage not available'
+    );
+  });
+
+  it('should fall back to a shared in-memory store when opted in', async () => {
+    const service = new RNStorageService({ fallbackToMemory: true });
+
+    await service.setItem('key', 'value');
+
+    expect(await new RNStorage({ fallbackToMemory: true }).getItem('key')).toBe(
+      'value'
+    );
+    expect(service.isAvailable()).toBe(false);
+    expect(service.isDegraded()).toBe(true);
+    expect(service.getType()).toBe('memory');
+    expect(isStorageDegraded()).toBe(true);
+  });
+
+  it('should emit a single warning when switching to the fallback', async () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToStorageWarnings(listener);
+    const storage = new RNStorage({ fallbackToMemory: true });
+
+    await storage.setItem('a', '1');
+    await storage.getItem('a');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: 'degraded',
+      message: expect.stringContaining('in-memory'),
+    });
+  });
+
+  it('should leave degraded mode when a module is injected', async () => {
+    await new RNStorage({ fallbackToMemory: true }).setItem('a', '1');
+    setAsyncStorageModule(mockAsyncStorage);
+
+    expect(isStorageDegraded()).toBe(false);
+    expect(new RNStorageService().isAvailable()).toBe(true);
+  });
+});
+
+describe('metadata reads and sliding expiration', () => {
+  let storage: AdvancedRNStorage;
+  let backend: MemoryStorageBackend;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    backend = new MemoryStorageBackend();
+    storage = new AdvancedRNStorage({ backend });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return the write time, expiry and remaining TTL', async () => {
+    await storage.setItem('token', 'abc', 60000);
+    vi.setSystemTime(1_010_000);
+
+    expect(await storage.getItemWithMetadata('token')).toEqual({
+      value: 'abc',
+      writtenAt: 1_000_000,
+      expiresAt: 1_060_000,
+      remainingTtl: 50000,
+      sliding: false,
+    });
+  });
+
+  it('should return null metadata for values without an envelope', async () => {
+    await backend.setItem('legacy', 'plain');
+
+    expect(await storage.getItemWithMetadata('legacy')).toEqual({
+      value: 'plain',
+      writtenAt: null,
+      expiresAt: null,
+      remainingTtl: null,
+      sliding: false,
+    });
+    expect(await storage.getItemWithMetadata('missing')).toBeNull();
+  });
+
+  it('should restart a sliding TTL on every read', async () => {
+    await storage.setItem('session', 's1', 1000, { sliding: true });
+
+    vi.setSystemTime(1_000_800);
+    expect(await storage.getItem('session')).toBe('s1');
+    vi.setSystemTime(1_001_600);
+    const entry = await storage.getItemWithMetadata('session');
+
+    expect(entry).toMatchObject({
+      value: 's1',
+      writtenAt: 1_000_000,
+      expiresAt: 1_002_600,
+      sliding: true,
+    });
+    vi.setSystemTime(1_003_000);
+    expect(await storage.getItem('session')).toBeNull();
+  });
+
+  it('should not notify subscribers when refreshing a sliding TTL', async () => {
+    await storage.setItem('session', 's1', 1000, { sliding: true });
+    const listener = vi.fn();
+    storage.subscribe('session', listener);
+
+    await storage.getItem('session');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not restart a sliding TTL in hasItem', async () => {
+    await storage.setItem('session', 's1', 1000, { sliding: true });
+
+    vi.setSystemTime(1_000_800);
+    expect(await storage.hasItem('session')).toBe(true);
+    vi.setSystemTime(1_001_200);
+    expect(await storage.hasItem('session')).toBe(false);
+    expect(await backend.getItem('session')).toBeNull();
+  });
+
+  it('should clear only expired entries with expiredOnly', async () => {
+    await storage.setItem('session:a', 'a', 1000, { sliding: true });
+    await storage.setItem('session:b', 'b', 1000, { sliding: true });
+    await storage.setItem('other', 'x', 1000);
+    vi.setSystemTime(1_000_800);
+    await storage.getItem('session:a');
+    vi.setSystemTime(1_001_200);
+
+    await storage.clearPattern('^session:', { expiredOnly: true });
+
+    expect(await backend.getAllKeys()).toEqual(['session:a', 'other']);
+  });
+});